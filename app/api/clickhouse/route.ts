@@ -1,72 +1,151 @@
 import { NextRequest } from 'next/server';
-
-interface ClickHouseConfig {
-  host: string;
-  username: string;
-  password: string;
-  database: string;
-}
+import {
+  Database,
+  QueryValidationError,
+  assertDate,
+  assertNonEmptyString,
+  assertUInt,
+  connectDatabase,
+  pickAllowed
+} from '@/utils/clickhouse';
+import { ProfileError, getClickHouseConfig } from '@/utils/credential-profiles';
+import {
+  compareRuns,
+  deleteNormalizedAnalysis,
+  getClusterLabels,
+  getRunClusters,
+  getVideoClusterHistory,
+  saveClusterLabel,
+  saveNormalizedAnalysis
+} from '@/utils/analysis-store';
+import { SchemaOutdatedError, assertSchemaCurrent, getMigrationStatus, migrate } from '@/utils/schema-migrations';
+
+// Actions that read tables and therefore need the latest schema to be applied
+const SCHEMA_DEPENDENT_ACTIONS = [
+  'get_urls', 'get_videos_with_embeddings', 'debug_embeddings', 'get_all_videos',
+  'list_analyses', 'get_analysis', 'delete_analysis', 'get_video_cluster_history', 'get_run_clusters',
+  'compare_runs', 'update_cluster_label'
+];
+
+const LABEL_TITLE_MAX_LENGTH = 120;
+const LABEL_DESCRIPTION_MAX_LENGTH = 600;
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { action, config, data } = body;
-
-    if (!config || !config.host || !config.username || !config.password) {
-      return Response.json({
-        success: false,
-        error: 'Missing required ClickHouse configuration'
-      }, { status: 400 });
-    }
+    const { action, profileId, data } = body;
 
-    const { host, username, password, database } = config as ClickHouseConfig;
+    const db = connectDatabase(getClickHouseConfig(profileId));
 
-    // Create authorization header
-    const auth = Buffer.from(`${username}:${password}`).toString('base64');
-    const headers = {
-      'Authorization': `Basic ${auth}`,
-      'Content-Type': 'text/plain',
-    };
+    try {
+      if (SCHEMA_DEPENDENT_ACTIONS.includes(action)) {
+        await assertSchemaCurrent(db);
+      }
 
-    switch (action) {
-      case 'test':
-        return await testConnection(host, headers);
+      switch (action) {
+        case 'test':
+          return await testConnection(db);
 
-      case 'create_tables':
-        return await createTables(host, headers, database);
+        case 'create_tables':
+        case 'migrate':
+          return await runMigrations(db);
 
-      case 'import_urls':
-        return await importUrls(host, headers, database, data?.urls || []);
+        case 'migration_status':
+          return await migrationStatus(db);
 
-      case 'save_videos':
-        return await saveVideos(host, headers, database, data?.videos || []);
+        case 'import_urls':
+          return await importUrls(db, data?.urls || []);
 
-      case 'save_complete_videos':
-        return await saveCompleteVideos(host, headers, database, data?.videos || []);
+        case 'save_videos':
+          return await saveVideos(db, data?.videos || []);
 
-      case 'save_results':
-        return await saveAnalysisResults(host, headers, database, data?.results || {});
+        case 'save_complete_videos':
+          return await saveCompleteVideos(db, data?.videos || []);
 
-      case 'get_urls':
-        return await getUrls(host, headers, database, data?.limit || 1000);
+        case 'save_results':
+          return await saveAnalysisResults(db, data?.results || {});
 
-      case 'get_videos_with_embeddings':
-        return await getVideosWithEmbeddings(host, headers, database, data?.limit || 1000);
+        case 'list_analyses':
+          return await listAnalyses(db, assertUInt(data?.limit || 20, 'limit', 1000), assertUInt(data?.offset || 0, 'offset'), {
+            model: data?.model ? assertNonEmptyString(data.model, 'model') : undefined,
+            algorithm: data?.algorithm ? assertNonEmptyString(data.algorithm, 'algorithm') : undefined,
+            from: data?.from ? assertDate(data.from, 'from date') : undefined,
+            to: data?.to ? assertDate(data.to, 'to date') : undefined
+          });
 
-      case 'debug_embeddings':
-        return await debugEmbeddings(host, headers, database);
+        case 'get_analysis':
+          return await getAnalysis(db, assertNonEmptyString(data?.sessionId, 'session ID'));
+
+        case 'delete_analysis':
+          return await deleteAnalysis(db, assertNonEmptyString(data?.sessionId, 'session ID'));
+
+        case 'get_video_cluster_history':
+          return await videoClusterHistory(
+            db,
+            assertNonEmptyString(data?.videoId, 'video ID'),
+            assertUInt(data?.limit || 100, 'limit', 10000)
+          );
+
+        case 'get_run_clusters':
+          return await runClusters(db, assertNonEmptyString(data?.runId, 'run ID'), data?.includeCentroids === true);
+
+        case 'compare_runs':
+          return await runComparison(db, assertNonEmptyString(data?.runA, 'run A'), assertNonEmptyString(data?.runB, 'run B'));
+
+        case 'update_cluster_label':
+          return await updateClusterLabel(
+            db,
+            assertNonEmptyString(data?.runId, 'run ID'),
+            assertUInt(data?.clusterId, 'cluster ID'),
+            assertNonEmptyString(data?.title, 'title', LABEL_TITLE_MAX_LENGTH).trim(),
+            assertNonEmptyString(data?.description, 'description', LABEL_DESCRIPTION_MAX_LENGTH).trim()
+          );
+
+        case 'get_urls':
+          return await getUrls(db, assertUInt(data?.limit || 1000, 'limit', 100000));
+
+        case 'get_videos_with_embeddings':
+          return await getVideosWithEmbeddings(db, assertUInt(data?.limit || 1000, 'limit', 100000));
+
+        case 'debug_embeddings':
+          return await debugEmbeddings(db);
+
+        case 'get_all_videos':
+          return await getAllVideos(
+            db,
+            assertUInt(data?.limit || 100, 'limit', 10000),
+            assertUInt(data?.offset || 0, 'offset'),
+            typeof data?.search === 'string' ? data.search : '',
+            data?.sort || 'added_at',
+            data?.sortDirection || 'desc'
+          );
+
+        default:
+          return Response.json({
+            success: false,
+            error: 'Invalid action specified'
+          }, { status: 400 });
+      }
+    } finally {
+      await db.close();
+    }
 
-      case 'get_all_videos':
-        return await getAllVideos(host, headers, database, data?.limit || 100, data?.offset || 0, data?.search || '', data?.sort || 'added_at', data?.sortDirection || 'desc');
+  } catch (error: any) {
+    if (error instanceof QueryValidationError || error instanceof ProfileError) {
+      return Response.json({
+        success: false,
+        error: error.message
+      }, { status: 400 });
+    }
 
-      default:
-        return Response.json({
-          success: false,
-          error: 'Invalid action specified'
-        }, { status: 400 });
+    if (error instanceof SchemaOutdatedError) {
+      return Response.json({
+        success: false,
+        error: error.message,
+        schemaOutdated: true
+      }, { status: 409 });
     }
 
-  } catch (error: any) {
     console.error('ClickHouse API error:', error);
     return Response.json({
       success: false,
@@ -76,27 +155,16 @@ export async function POST(request: NextRequest) {
 }
 
 // Test ClickHouse connection
-async function testConnection(host: string, headers: any) {
+async function testConnection(db: Database) {
   try {
-    const response = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: 'SELECT 1 as test',
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      return Response.json({
-        success: false,
-        error: `Connection failed: ${response.status} - ${errorText}`
-      });
-    }
+    const rows = await db.query<{ test: number }>('SELECT 1 as test');
+    const schema = await getMigrationStatus(db);
 
-    const result = await response.text();
     return Response.json({
       success: true,
       message: 'Connection successful',
-      result: result.trim()
+      result: String(rows[0]?.test ?? ''),
+      schema
     });
 
   } catch (error: any) {
@@ -107,113 +175,48 @@ async function testConnection(host: string, headers: any) {
   }
 }
 
-// Create necessary tables
-async function createTables(host: string, headers: any, database: string) {
+// Apply pending schema migrations (create_tables is kept for older clients)
+async function runMigrations(db: Database) {
   try {
-    // Create urls table
-    const createUrlsTable = `
-      CREATE TABLE IF NOT EXISTS ${database}.urls (
-        id UUID DEFAULT generateUUIDv4(),
-        url String,
-        added_at DateTime DEFAULT now(),
-        processed Boolean DEFAULT false,
-        INDEX idx_url url TYPE bloom_filter GRANULARITY 1
-      ) ENGINE = MergeTree()
-      ORDER BY added_at
-      SETTINGS index_granularity = 8192;
-    `;
-
-    // Create comprehensive videos table with all metadata
-    const createVideosTable = `
-      CREATE TABLE IF NOT EXISTS ${database}.videos (
-        id String,
-        url String,
-        title String,
-        thumbnail String,
-        duration String,
-        view_count Nullable(UInt64),
-        like_count Nullable(UInt64),
-        comment_count Nullable(UInt64),
-        published_at Nullable(DateTime),
-        channel_id Nullable(String),
-        channel_title Nullable(String),
-        description Nullable(String),
-        tags Array(String) DEFAULT [],
-        category_id Nullable(String),
-        embedding Array(Float32) DEFAULT [],
-        embedding_model Nullable(String),
-        embedding_dimensions Nullable(UInt16),
-        embedding_generated_at Nullable(DateTime),
-        processed_for_clustering Boolean DEFAULT false,
-        language_detected Nullable(String),
-        language_confidence Nullable(Float32),
-        added_at DateTime DEFAULT now(),
-        updated_at DateTime DEFAULT now(),
-        INDEX idx_id id TYPE bloom_filter GRANULARITY 1,
-        INDEX idx_url url TYPE bloom_filter GRANULARITY 1,
-        INDEX idx_title title TYPE bloom_filter GRANULARITY 1,
-        INDEX idx_channel channel_id TYPE bloom_filter GRANULARITY 1,
-        INDEX idx_embedding_model embedding_model TYPE bloom_filter GRANULARITY 1
-      ) ENGINE = ReplacingMergeTree(updated_at)
-      ORDER BY id
-      SETTINGS index_granularity = 8192;
-    `;
+    const { applied, status } = await migrate(db);
 
-    // Create analysis_results table
-    const createAnalysisTable = `
-      CREATE TABLE IF NOT EXISTS ${database}.analysis_results (
-        id UUID DEFAULT generateUUIDv4(),
-        session_id String,
-        video_count UInt32,
-        cluster_count UInt32,
-        embedding_model String,
-        clustering_algorithm String,
-        created_at DateTime DEFAULT now(),
-        results String,
-        INDEX idx_session session_id TYPE bloom_filter GRANULARITY 1
-      ) ENGINE = MergeTree()
-      ORDER BY created_at
-      SETTINGS index_granularity = 8192;
-    `;
+    return Response.json({
+      success: true,
+      message: applied.length > 0
+        ? `Applied ${applied.length} migration${applied.length !== 1 ? 's' : ''}, schema is at version ${status.currentVersion}`
+        : `Schema is up to date (version ${status.currentVersion})`,
+      applied,
+      status
+    });
 
-    // Execute table creation queries
-    const tables = [
-      { name: 'urls', query: createUrlsTable },
-      { name: 'videos', query: createVideosTable },
-      { name: 'analysis_results', query: createAnalysisTable }
-    ];
-
-    for (const table of tables) {
-      const response = await fetch(host, {
-        method: 'POST',
-        headers,
-        body: table.query,
-      });
+  } catch (error: any) {
+    return Response.json({
+      success: false,
+      error: `Migration failed: ${error.message}`
+    });
+  }
+}
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        return Response.json({
-          success: false,
-          error: `Failed to create ${table.name} table: ${errorText}`
-        });
-      }
-    }
+// Report applied and pending schema migrations
+async function migrationStatus(db: Database) {
+  try {
+    const status = await getMigrationStatus(db);
 
     return Response.json({
       success: true,
-      message: 'All tables created successfully'
+      status
     });
 
   } catch (error: any) {
     return Response.json({
       success: false,
-      error: `Table creation failed: ${error.message}`
+      error: `Failed to read migration status: ${error.message}`
     });
   }
 }
 
 // Import URLs (with duplicate prevention)
-async function importUrls(host: string, headers: any, database: string, urls: string[]) {
+async function importUrls(db: Database, urls: string[]) {
   try {
     if (!urls || urls.length === 0) {
       return Response.json({
@@ -222,47 +225,37 @@ async function importUrls(host: string, headers: any, database: string, urls: st
       });
     }
 
-    // First, create tables if they don't exist
-    await createTables(host, headers, database);
-
-    // Prepare insert query with deduplication
-    const values = urls.map(url => `('${(url || '').replace(/'/g, "''")}')`).join(',');
-    const insertQuery = `
-      INSERT INTO ${database}.urls (url)
-      SELECT url FROM (
-        SELECT url FROM VALUES ('url String', ${values})
-      ) AS new_urls
-      WHERE url NOT IN (
-        SELECT url FROM ${database}.urls
+    // First, bring the schema up to date
+    await migrate(db);
+
+    // Insert only the URLs that are not stored yet
+    try {
+      await db.command(
+        `
+          INSERT INTO ${db.table('urls')} (url)
+          SELECT url FROM (
+            SELECT arrayJoin({urls:Array(String)}) AS url
+          ) AS new_urls
+          WHERE url NOT IN (
+            SELECT url FROM ${db.table('urls')}
+          )
+        `,
+        { urls: urls.map(url => String(url || '')) }
       );
-    `;
-
-    const response = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: insertQuery,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
+    } catch (error: any) {
       return Response.json({
         success: false,
-        error: `Failed to import URLs: ${errorText}`
+        error: `Failed to import URLs: ${error.message}`
       });
     }
 
     // Get count of imported URLs
-    const countQuery = `SELECT count() as total FROM ${database}.urls`;
-    const countResponse = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: countQuery,
-    });
-
     let totalCount = 0;
-    if (countResponse.ok) {
-      const countResult = await countResponse.text();
-      totalCount = parseInt(countResult.trim()) || 0;
+    try {
+      const countRows = await db.query<{ total: string }>(`SELECT count() as total FROM ${db.table('urls')}`);
+      totalCount = parseInt(countRows[0]?.total) || 0;
+    } catch (error) {
+      console.error('URL count query failed:', error);
     }
 
     return Response.json({
@@ -280,8 +273,35 @@ async function importUrls(host: string, headers: any, database: string, urls: st
   }
 }
 
+// Map a client-side video object onto a videos table row
+function toVideoRow(video: any) {
+  return {
+    id: String(video.id || ''),
+    url: String(video.url || ''),
+    title: String(video.title || ''),
+    thumbnail: String(video.thumbnail || ''),
+    duration: String(video.duration || ''),
+    view_count: video.view_count || null,
+    like_count: video.like_count || null,
+    comment_count: video.comment_count || null,
+    published_at: video.published_at || null,
+    channel_id: video.channel_id ? String(video.channel_id) : null,
+    channel_title: video.channel_title ? String(video.channel_title) : null,
+    description: video.description ? String(video.description) : null,
+    tags: Array.isArray(video.tags) ? video.tags.map((tag: any) => String(tag)) : [],
+    category_id: video.category_id ? String(video.category_id) : null,
+    embedding: Array.isArray(video.embedding) ? video.embedding.map(Number) : [],
+    embedding_model: video.embedding_model ? String(video.embedding_model) : null,
+    embedding_dimensions: video.embedding_dimensions || null,
+    embedding_generated_at: video.embedding_generated_at || null,
+    processed_for_clustering: Boolean(video.processed_for_clustering),
+    language_detected: video.language_detected ? String(video.language_detected) : null,
+    language_confidence: video.language_confidence || null
+  };
+}
+
 // Save complete video data with all metadata (new comprehensive version)
-async function saveCompleteVideos(host: string, headers: any, database: string, videos: any[]) {
+async function saveCompleteVideos(db: Database, videos: any[]) {
   try {
     if (!videos || videos.length === 0) {
       return Response.json({
@@ -293,69 +313,18 @@ async function saveCompleteVideos(host: string, headers: any, database: string,
     console.log('Saving complete videos to ClickHouse:', {
       count: videos.length,
       sampleVideo: videos[0],
-      database
-    });
-
-    // First, create tables if they don't exist
-    await createTables(host, headers, database);
-
-    // Use the same comprehensive insert logic
-    const values = videos.map(video => {
-      const id = video.id || '';
-      const url = (video.url || '').replace(/'/g, "''");
-      const title = (video.title || '').replace(/'/g, "''");
-      const thumbnail = (video.thumbnail || '').replace(/'/g, "''");
-      const duration = video.duration || '';
-      const view_count = video.view_count || 'NULL';
-      const like_count = video.like_count || 'NULL';
-      const comment_count = video.comment_count || 'NULL';
-      const published_at = video.published_at ? `'${video.published_at}'` : 'NULL';
-      const channel_id = video.channel_id ? `'${video.channel_id.replace(/'/g, "''")}'` : 'NULL';
-      const channel_title = video.channel_title ? `'${video.channel_title.replace(/'/g, "''")}'` : 'NULL';
-      const description = video.description ? `'${video.description.replace(/'/g, "''")}'` : 'NULL';
-      const tags = video.tags && Array.isArray(video.tags)
-        ? `[${video.tags.map((tag: string) => `'${tag.replace(/'/g, "''")}'`).join(',')}]`
-        : '[]';
-      const category_id = video.category_id ? `'${video.category_id}'` : 'NULL';
-
-      // Handle embeddings
-      const embedding = video.embedding && Array.isArray(video.embedding)
-        ? `[${video.embedding.join(',')}]`
-        : '[]';
-      const embedding_model = video.embedding_model ? `'${video.embedding_model.replace(/'/g, "''")}'` : 'NULL';
-      const embedding_dimensions = video.embedding_dimensions || 'NULL';
-      const embedding_generated_at = video.embedding_generated_at ? `'${video.embedding_generated_at}'` : 'NULL';
-
-      // Language detection
-      const language_detected = video.language_detected ? `'${video.language_detected}'` : 'NULL';
-      const language_confidence = video.language_confidence || 'NULL';
-
-      const processed_for_clustering = video.processed_for_clustering ? 'true' : 'false';
-
-      return `('${id}', '${url}', '${title}', '${thumbnail}', '${duration}', ${view_count}, ${like_count}, ${comment_count}, ${published_at}, ${channel_id}, ${channel_title}, ${description}, ${tags}, ${category_id}, ${embedding}, ${embedding_model}, ${embedding_dimensions}, ${embedding_generated_at}, ${processed_for_clustering}, ${language_detected}, ${language_confidence}, now(), now())`;
-    }).join(',');
-
-    const insertQuery = `
-      INSERT INTO ${database}.videos (
-        id, url, title, thumbnail, duration, view_count, like_count, comment_count,
-        published_at, channel_id, channel_title, description, tags, category_id,
-        embedding, embedding_model, embedding_dimensions, embedding_generated_at,
-        processed_for_clustering, language_detected, language_confidence, added_at, updated_at
-      )
-      VALUES ${values};
-    `;
-
-    const response = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: insertQuery,
+      database: db.name
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
+    // First, bring the schema up to date
+    await migrate(db);
+
+    try {
+      await db.insert('videos', videos.map(toVideoRow));
+    } catch (error: any) {
       return Response.json({
         success: false,
-        error: `Failed to save complete videos: ${errorText}`
+        error: `Failed to save complete videos: ${error.message}`
       });
     }
 
@@ -373,7 +342,7 @@ async function saveCompleteVideos(host: string, headers: any, database: string,
 }
 
 // Save video data (legacy version for backward compatibility)
-async function saveVideos(host: string, headers: any, database: string, videos: any[]) {
+async function saveVideos(db: Database, videos: any[]) {
   try {
     if (!videos || videos.length === 0) {
       return Response.json({
@@ -385,69 +354,18 @@ async function saveVideos(host: string, headers: any, database: string, videos:
     console.log('Saving videos to ClickHouse:', {
       count: videos.length,
       sampleVideo: videos[0],
-      database
-    });
-
-    // First, create tables if they don't exist
-    await createTables(host, headers, database);
-
-    // Prepare values for comprehensive batch insert
-    const values = videos.map(video => {
-      const id = video.id || '';
-      const url = (video.url || '').replace(/'/g, "''");
-      const title = (video.title || '').replace(/'/g, "''");
-      const thumbnail = (video.thumbnail || '').replace(/'/g, "''");
-      const duration = video.duration || '';
-      const view_count = video.view_count || 'NULL';
-      const like_count = video.like_count || 'NULL';
-      const comment_count = video.comment_count || 'NULL';
-      const published_at = video.published_at ? `'${video.published_at}'` : 'NULL';
-      const channel_id = video.channel_id ? `'${video.channel_id.replace(/'/g, "''")}'` : 'NULL';
-      const channel_title = video.channel_title ? `'${video.channel_title.replace(/'/g, "''")}'` : 'NULL';
-      const description = video.description ? `'${video.description.replace(/'/g, "''")}'` : 'NULL';
-      const tags = video.tags && Array.isArray(video.tags)
-        ? `[${video.tags.map((tag: string) => `'${tag.replace(/'/g, "''")}'`).join(',')}]`
-        : '[]';
-      const category_id = video.category_id ? `'${video.category_id}'` : 'NULL';
-
-      // Handle embeddings
-      const embedding = video.embedding && Array.isArray(video.embedding)
-        ? `[${video.embedding.join(',')}]`
-        : '[]';
-      const embedding_model = video.embedding_model ? `'${video.embedding_model.replace(/'/g, "''")}'` : 'NULL';
-      const embedding_dimensions = video.embedding_dimensions || 'NULL';
-      const embedding_generated_at = video.embedding_generated_at ? `'${video.embedding_generated_at}'` : 'NULL';
-
-      // Language detection
-      const language_detected = video.language_detected ? `'${video.language_detected}'` : 'NULL';
-      const language_confidence = video.language_confidence || 'NULL';
-
-      const processed_for_clustering = video.processed_for_clustering ? 'true' : 'false';
-
-      return `('${id}', '${url}', '${title}', '${thumbnail}', '${duration}', ${view_count}, ${like_count}, ${comment_count}, ${published_at}, ${channel_id}, ${channel_title}, ${description}, ${tags}, ${category_id}, ${embedding}, ${embedding_model}, ${embedding_dimensions}, ${embedding_generated_at}, ${processed_for_clustering}, ${language_detected}, ${language_confidence}, now(), now())`;
-    }).join(',');
-
-    const insertQuery = `
-      INSERT INTO ${database}.videos (
-        id, url, title, thumbnail, duration, view_count, like_count, comment_count,
-        published_at, channel_id, channel_title, description, tags, category_id,
-        embedding, embedding_model, embedding_dimensions, embedding_generated_at,
-        processed_for_clustering, language_detected, language_confidence, added_at, updated_at
-      )
-      VALUES ${values};
-    `;
-
-    const response = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: insertQuery,
+      database: db.name
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
+    // First, bring the schema up to date
+    await migrate(db);
+
+    try {
+      await db.insert('videos', videos.map(toVideoRow));
+    } catch (error: any) {
       return Response.json({
         success: false,
-        error: `Failed to save videos: ${errorText}`
+        error: `Failed to save videos: ${error.message}`
       });
     }
 
@@ -465,45 +383,54 @@ async function saveVideos(host: string, headers: any, database: string, videos:
 }
 
 // Save analysis results
-async function saveAnalysisResults(host: string, headers: any, database: string, results: any) {
+async function saveAnalysisResults(db: Database, results: any) {
   try {
-    // First, create tables if they don't exist
-    await createTables(host, headers, database);
+    // First, bring the schema up to date
+    await migrate(db);
 
     const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const resultsJson = JSON.stringify(results).replace(/'/g, "''");
-
-    const insertQuery = `
-      INSERT INTO ${database}.analysis_results
-      (session_id, video_count, cluster_count, embedding_model, clustering_algorithm, results)
-      VALUES (
-        '${sessionId}',
-        ${results.videoCount || 0},
-        ${results.clusterCount || 0},
-        '${results.embeddingModel || 'unknown'}',
-        '${results.clusteringAlgorithm || 'unknown'}',
-        '${resultsJson}'
-      );
-    `;
 
-    const response = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: insertQuery,
-    });
+    try {
+      await db.insert('analysis_results', [{
+        session_id: sessionId,
+        video_count: Number(results.videoCount) || 0,
+        cluster_count: Number(results.clusterCount) || 0,
+        embedding_model: String(results.embeddingModel || 'unknown'),
+        clustering_algorithm: String(results.clusteringAlgorithm || 'unknown'),
+        results: JSON.stringify(results)
+      }]);
+    } catch (error: any) {
+      return Response.json({
+        success: false,
+        error: `Failed to save analysis results: ${error.message}`
+      });
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
+    // Per-video and per-cluster rows for cross-run queries; a half-written
+    // run would give wrong answers there, so the whole save is rolled back
+    let normalized;
+    try {
+      normalized = await saveNormalizedAnalysis(db, sessionId, results);
+    } catch (error: any) {
+      console.error('Normalized analysis save failed, rolling back:', error);
+      await deleteNormalizedAnalysis(db, sessionId).catch(() => {});
+      await db.command(
+        `ALTER TABLE ${db.table('analysis_results')} DELETE WHERE session_id = {sessionId:String}`,
+        { sessionId },
+        { mutations_sync: 1 }
+      ).catch(() => {});
       return Response.json({
         success: false,
-        error: `Failed to save analysis results: ${errorText}`
+        error: `Failed to save cluster assignments: ${error.message}`
       });
     }
 
     return Response.json({
       success: true,
       message: 'Analysis results saved successfully',
-      sessionId
+      sessionId,
+      assignments: normalized.assignments,
+      unmatchedVideos: normalized.unmatched
     });
 
   } catch (error: any) {
@@ -514,94 +441,293 @@ async function saveAnalysisResults(host: string, headers: any, database: string,
   }
 }
 
-// Get URLs from database
-async function getUrls(host: string, headers: any, database: string, limit: number) {
+interface AnalysisFilters {
+  model?: string;
+  algorithm?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;   // YYYY-MM-DD, inclusive
+}
+
+// Saved analyses, newest first, without the results blob
+async function listAnalyses(db: Database, limit: number, offset: number, filters: AnalysisFilters) {
   try {
-    console.log(`Getting URLs from database: ${database}, limit: ${limit}`);
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { limit, offset };
+    const addCondition = (condition: string, name: keyof AnalysisFilters) => {
+      if (!filters[name]) return;
+      conditions.push(condition);
+      params[name] = filters[name];
+    };
+    addCondition('embedding_model = {model:String}', 'model');
+    addCondition('clustering_algorithm = {algorithm:String}', 'algorithm');
+    addCondition('toDate(created_at) >= {from:Date}', 'from');
+    addCondition('toDate(created_at) <= {to:Date}', 'to');
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countRows = await db.query<{ total: string }>(
+      `SELECT count() as total FROM ${db.table('analysis_results')} ${whereClause}`,
+      params
+    );
+    const total = parseInt(countRows[0]?.total) || 0;
+
+    const analyses = await db.query(
+      `
+        SELECT session_id, video_count, cluster_count, embedding_model, clustering_algorithm, created_at
+        FROM ${db.table('analysis_results')}
+        ${whereClause}
+        ORDER BY created_at DESC
+        LIMIT {limit:UInt32} OFFSET {offset:UInt32}
+      `,
+      params
+    );
+
+    // Values for the filter dropdowns, across all saved analyses
+    const options = await db.query<{ models: string[]; algorithms: string[] }>(
+      `SELECT groupUniqArray(embedding_model) as models, groupUniqArray(clustering_algorithm) as algorithms FROM ${db.table('analysis_results')}`
+    );
 
-    // First, check if table exists and has data
-    const countQuery = `SELECT count() as total FROM ${database}.urls`;
+    return Response.json({
+      success: true,
+      analyses,
+      total,
+      offset,
+      limit,
+      hasMore: offset + analyses.length < total,
+      models: (options[0]?.models || []).sort(),
+      algorithms: (options[0]?.algorithms || []).sort()
+    });
 
-    const countResponse = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: countQuery,
+  } catch (error: any) {
+    console.error('listAnalyses error:', error);
+    return Response.json({
+      success: false,
+      error: `Failed to list analyses: ${error.message}`
     });
+  }
+}
 
-    if (!countResponse.ok) {
-      const errorText = await countResponse.text();
-      console.error('Count query failed:', errorText);
+// One saved analysis with its parsed results
+async function getAnalysis(db: Database, sessionId: string) {
+  try {
+    const rows = await db.query(
+      `
+        SELECT session_id, video_count, cluster_count, embedding_model, clustering_algorithm, created_at, results
+        FROM ${db.table('analysis_results')}
+        WHERE session_id = {sessionId:String}
+        LIMIT 1
+      `,
+      { sessionId }
+    );
+
+    if (rows.length === 0) {
       return Response.json({
         success: false,
-        error: `Failed to check URL count: ${errorText}`
-      });
+        error: `Analysis not found: ${sessionId}`
+      }, { status: 404 });
+    }
+
+    // Cluster titles edited after saving live in cluster_labels, not in the JSON
+    const { results, ...analysis } = rows[0];
+    const parsed = JSON.parse(results);
+    const labels = await getClusterLabels(db, sessionId);
+    if (labels.size > 0 && Array.isArray(parsed.clusterSummaries)) {
+      parsed.clusterSummaries = parsed.clusterSummaries.map((summary: any) =>
+        labels.has(summary.id) ? { ...summary, generatedLabel: labels.get(summary.id) } : summary
+      );
+    }
+
+    return Response.json({
+      success: true,
+      analysis: { ...analysis, results: parsed }
+    });
+
+  } catch (error: any) {
+    console.error('getAnalysis error:', error);
+    return Response.json({
+      success: false,
+      error: `Failed to load analysis: ${error.message}`
+    });
+  }
+}
+
+async function deleteAnalysis(db: Database, sessionId: string) {
+  try {
+    // Wait for the mutations so the next list no longer shows the session
+    await db.command(
+      `ALTER TABLE ${db.table('analysis_results')} DELETE WHERE session_id = {sessionId:String}`,
+      { sessionId },
+      { mutations_sync: 1 }
+    );
+    await deleteNormalizedAnalysis(db, sessionId);
+
+    return Response.json({
+      success: true,
+      message: `Analysis ${sessionId} deleted`
+    });
+
+  } catch (error: any) {
+    console.error('deleteAnalysis error:', error);
+    return Response.json({
+      success: false,
+      error: `Failed to delete analysis: ${error.message}`
+    });
+  }
+}
+
+// Every saved run a video was clustered in
+async function videoClusterHistory(db: Database, videoId: string, limit: number) {
+  try {
+    const history = await getVideoClusterHistory(db, videoId, limit);
+    return Response.json({
+      success: true,
+      videoId,
+      history
+    });
+
+  } catch (error: any) {
+    console.error('videoClusterHistory error:', error);
+    return Response.json({
+      success: false,
+      error: `Failed to load cluster history: ${error.message}`
+    });
+  }
+}
+
+// The clusters of one saved run and the videos in each
+async function runClusters(db: Database, runId: string, includeCentroids: boolean) {
+  try {
+    const { run, clusters, noise } = await getRunClusters(db, runId, includeCentroids);
+    if (!run) {
+      return Response.json({
+        success: false,
+        error: `Run not found: ${runId}`
+      }, { status: 404 });
+    }
+
+    return Response.json({
+      success: true,
+      run,
+      clusters,
+      noise
+    });
+
+  } catch (error: any) {
+    console.error('runClusters error:', error);
+    return Response.json({
+      success: false,
+      error: `Failed to load run clusters: ${error.message}`
+    });
+  }
+}
+
+// ARI / NMI, contingency matrix and cluster alignment between two saved runs
+async function runComparison(db: Database, runA: string, runB: string) {
+  try {
+    const result = await compareRuns(db, runA, runB);
+    if (!result) {
+      return Response.json({
+        success: false,
+        error: 'Both runs must have been saved with schema version 4 or later to be compared'
+      }, { status: 404 });
+    }
+
+    return Response.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error: any) {
+    console.error('runComparison error:', error);
+    return Response.json({
+      success: false,
+      error: `Failed to compare runs: ${error.message}`
+    });
+  }
+}
+
+// Override a saved run's cluster title and description
+async function updateClusterLabel(db: Database, runId: string, clusterId: number, title: string, description: string) {
+  try {
+    const runs = await db.query(
+      `SELECT session_id FROM ${db.table('analysis_results')} WHERE session_id = {runId:String} LIMIT 1`,
+      { runId }
+    );
+    if (runs.length === 0) {
+      return Response.json({
+        success: false,
+        error: `Run not found: ${runId}`
+      }, { status: 404 });
     }
 
-    const countText = await countResponse.text();
-    const totalUrls = parseInt(countText.trim()) || 0;
+    const label = await saveClusterLabel(db, runId, clusterId, { title, description });
+    return Response.json({
+      success: true,
+      runId,
+      clusterId,
+      label
+    });
+
+  } catch (error: any) {
+    console.error('updateClusterLabel error:', error);
+    return Response.json({
+      success: false,
+      error: `Failed to update cluster label: ${error.message}`
+    });
+  }
+}
+
+// Get URLs from database
+async function getUrls(db: Database, limit: number) {
+  try {
+    console.log(`Getting URLs from database: ${db.name}, limit: ${limit}`);
+
+    // First, check if table exists and has data
+    let totalUrls = 0;
+    try {
+      const countRows = await db.query<{ total: string }>(`SELECT count() as total FROM ${db.table('urls')}`);
+      totalUrls = parseInt(countRows[0]?.total) || 0;
+    } catch (error: any) {
+      console.error('Count query failed:', error.message);
+      return Response.json({
+        success: false,
+        error: `Failed to check URL count: ${error.message}`
+      });
+    }
     console.log(`Total URLs in database: ${totalUrls}`);
 
     if (totalUrls === 0) {
       // Check if there are URLs in the videos table instead
       console.log('No URLs in urls table, checking videos table...');
 
-      const videoCountQuery = `SELECT count() as total FROM ${database}.videos`;
-      const videoCountResponse = await fetch(host, {
-        method: 'POST',
-        headers,
-        body: videoCountQuery,
-      });
-
-      if (videoCountResponse.ok) {
-        const videoCountText = await videoCountResponse.text();
-        const totalVideos = parseInt(videoCountText.trim()) || 0;
+      try {
+        const videoCountRows = await db.query<{ total: string }>(`SELECT count() as total FROM ${db.table('videos')}`);
+        const totalVideos = parseInt(videoCountRows[0]?.total) || 0;
         console.log(`Total videos in database: ${totalVideos}`);
 
         if (totalVideos > 0) {
           // Get URLs from videos table
-          const videoQuery = `
-            SELECT url, added_at
-            FROM ${database}.videos
-            ORDER BY added_at DESC
-            LIMIT ${limit}
-            FORMAT JSONEachRow
-          `;
-
-          const videoResponse = await fetch(host, {
-            method: 'POST',
-            headers,
-            body: videoQuery,
+          const videoUrls = await db.query(
+            `
+              SELECT url, added_at
+              FROM ${db.table('videos')}
+              ORDER BY added_at DESC
+              LIMIT {limit:UInt32}
+            `,
+            { limit }
+          );
+
+          console.log(`Parsed ${videoUrls.length} URLs from videos table`);
+
+          return Response.json({
+            success: true,
+            urls: videoUrls,
+            count: videoUrls.length,
+            totalInDb: totalVideos,
+            source: 'videos table'
           });
-
-          if (videoResponse.ok) {
-            const videoResultText = await videoResponse.text();
-            console.log('Raw video response from ClickHouse:', videoResultText);
-
-            const videoUrls = videoResultText
-              .trim()
-              .split('\n')
-              .filter(line => line.trim())
-              .map(line => {
-                try {
-                  return JSON.parse(line);
-                } catch (e) {
-                  console.error('Failed to parse video line:', line, e);
-                  return null;
-                }
-              })
-              .filter(Boolean);
-
-            console.log(`Parsed ${videoUrls.length} URLs from videos table`);
-
-            return Response.json({
-              success: true,
-              urls: videoUrls,
-              count: videoUrls.length,
-              totalInDb: totalVideos,
-              source: 'videos table'
-            });
-          }
         }
+      } catch (error) {
+        console.error('Videos table fallback failed:', error);
       }
 
       return Response.json({
@@ -613,47 +739,25 @@ async function getUrls(host: string, headers: any, database: string, limit: numb
     }
 
     // Get the URLs
-    const query = `
-      SELECT url, added_at, processed
-      FROM ${database}.urls
-      ORDER BY added_at DESC
-      LIMIT ${limit}
-      FORMAT JSONEachRow
-    `;
-
-    const response = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: query,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('URLs query failed:', errorText);
+    let urls: any[];
+    try {
+      urls = await db.query(
+        `
+          SELECT url, added_at, processed
+          FROM ${db.table('urls')}
+          ORDER BY added_at DESC
+          LIMIT {limit:UInt32}
+        `,
+        { limit }
+      );
+    } catch (error: any) {
+      console.error('URLs query failed:', error.message);
       return Response.json({
         success: false,
-        error: `Failed to fetch URLs: ${errorText}`
+        error: `Failed to fetch URLs: ${error.message}`
       });
     }
 
-    const resultText = await response.text();
-    console.log('Raw response from ClickHouse:', resultText);
-
-    // Parse JSONEachRow format (one JSON object per line)
-    const urls = resultText
-      .trim()
-      .split('\n')
-      .filter(line => line.trim())
-      .map(line => {
-        try {
-          return JSON.parse(line);
-        } catch (e) {
-          console.error('Failed to parse line:', line, e);
-          return null;
-        }
-      })
-      .filter(Boolean);
-
     console.log(`Parsed ${urls.length} URLs from response`);
 
     return Response.json({
@@ -673,30 +777,24 @@ async function getUrls(host: string, headers: any, database: string, limit: numb
 }
 
 // Get videos with embeddings and all metadata
-async function getVideosWithEmbeddings(host: string, headers: any, database: string, limit: number) {
+async function getVideosWithEmbeddings(db: Database, limit: number) {
   try {
-    console.log(`Getting videos with embeddings from database: ${database}, limit: ${limit}`);
+    console.log(`Getting videos with embeddings from database: ${db.name}, limit: ${limit}`);
 
     // First, check if table exists and has data
-    const countQuery = `SELECT count() as total FROM ${database}.videos WHERE length(embedding) > 0`;
-
-    const countResponse = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: countQuery,
-    });
-
-    if (!countResponse.ok) {
-      const errorText = await countResponse.text();
-      console.error('Count query failed:', errorText);
+    let totalVideosWithEmbeddings = 0;
+    try {
+      const countRows = await db.query<{ total: string }>(
+        `SELECT count() as total FROM ${db.table('videos')} WHERE length(embedding) > 0`
+      );
+      totalVideosWithEmbeddings = parseInt(countRows[0]?.total) || 0;
+    } catch (error: any) {
+      console.error('Count query failed:', error.message);
       return Response.json({
         success: false,
-        error: `Failed to check video count: ${errorText}`
+        error: `Failed to check video count: ${error.message}`
       });
     }
-
-    const countText = await countResponse.text();
-    const totalVideosWithEmbeddings = parseInt(countText.trim()) || 0;
     console.log(`Total videos with embeddings in database: ${totalVideosWithEmbeddings}`);
 
     if (totalVideosWithEmbeddings === 0) {
@@ -709,53 +807,31 @@ async function getVideosWithEmbeddings(host: string, headers: any, database: str
     }
 
     // Get the videos with all metadata
-    const query = `
-      SELECT
-        id, url, title, thumbnail, duration, view_count, like_count, comment_count,
-        published_at, channel_id, channel_title, description, tags, category_id,
-        embedding, embedding_model, embedding_dimensions, embedding_generated_at,
-        processed_for_clustering, language_detected, language_confidence,
-        added_at, updated_at
-      FROM ${database}.videos
-      WHERE length(embedding) > 0
-      ORDER BY updated_at DESC
-      LIMIT ${limit}
-      FORMAT JSONEachRow
-    `;
-
-    const response = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: query,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Videos query failed:', errorText);
+    let videos: any[];
+    try {
+      videos = await db.query(
+        `
+          SELECT
+            id, url, title, thumbnail, duration, view_count, like_count, comment_count,
+            published_at, channel_id, channel_title, description, tags, category_id,
+            embedding, embedding_model, embedding_dimensions, embedding_generated_at,
+            processed_for_clustering, language_detected, language_confidence,
+            added_at, updated_at
+          FROM ${db.table('videos')}
+          WHERE length(embedding) > 0
+          ORDER BY updated_at DESC
+          LIMIT {limit:UInt32}
+        `,
+        { limit }
+      );
+    } catch (error: any) {
+      console.error('Videos query failed:', error.message);
       return Response.json({
         success: false,
-        error: `Failed to fetch videos: ${errorText}`
+        error: `Failed to fetch videos: ${error.message}`
       });
     }
 
-    const resultText = await response.text();
-    console.log(`Raw video response from ClickHouse (${resultText.length} chars)`);
-
-    // Parse JSONEachRow format (one JSON object per line)
-    const videos = resultText
-      .trim()
-      .split('\n')
-      .filter(line => line.trim())
-      .map(line => {
-        try {
-          return JSON.parse(line);
-        } catch (e) {
-          console.error('Failed to parse video line:', line, e);
-          return null;
-        }
-      })
-      .filter(Boolean);
-
     console.log(`Parsed ${videos.length} videos with embeddings from response`);
 
     return Response.json({
@@ -775,58 +851,34 @@ async function getVideosWithEmbeddings(host: string, headers: any, database: str
 }
 
 // Debug embeddings in database
-async function debugEmbeddings(host: string, headers: any, database: string) {
+async function debugEmbeddings(db: Database) {
   try {
-    console.log(`Debugging embeddings in database: ${database}`);
+    console.log(`Debugging embeddings in database: ${db.name}`);
 
     // Query to get embedding statistics
-    const debugQuery = `
-      SELECT
-        id,
-        title,
-        embedding_model,
-        embedding_dimensions,
-        length(embedding) as actual_array_length,
-        embedding_generated_at
-      FROM ${database}.videos
-      WHERE length(embedding) > 0
-      ORDER BY embedding_generated_at DESC
-      LIMIT 10
-      FORMAT JSONEachRow
-    `;
-
-    const response = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: debugQuery,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Debug query failed:', errorText);
+    let debugResults: any[];
+    try {
+      debugResults = await db.query(`
+        SELECT
+          id,
+          title,
+          embedding_model,
+          embedding_dimensions,
+          length(embedding) as actual_array_length,
+          embedding_generated_at
+        FROM ${db.table('videos')}
+        WHERE length(embedding) > 0
+        ORDER BY embedding_generated_at DESC
+        LIMIT 10
+      `);
+    } catch (error: any) {
+      console.error('Debug query failed:', error.message);
       return Response.json({
         success: false,
-        error: `Failed to debug embeddings: ${errorText}`
+        error: `Failed to debug embeddings: ${error.message}`
       });
     }
 
-    const resultText = await response.text();
-    console.log('Raw debug response from ClickHouse:', resultText);
-
-    const debugResults = resultText
-      .trim()
-      .split('\n')
-      .filter(line => line.trim())
-      .map(line => {
-        try {
-          return JSON.parse(line);
-        } catch (e) {
-          console.error('Failed to parse debug line:', line, e);
-          return null;
-        }
-      })
-      .filter(Boolean);
-
     console.log(`Debug results: ${debugResults.length} videos found`);
 
     return Response.json({
@@ -844,61 +896,64 @@ async function debugEmbeddings(host: string, headers: any, database: string) {
   }
 }
 
+// Sortable columns for the video browser, mapped to their ORDER BY expression
+const VIDEO_SORT_EXPRESSIONS = {
+  added_at: ['added_at'],
+  title: ['title'],
+  view_count: ['view_count'],
+  like_count: ['like_count'],
+  duration: ['duration'],
+  channel_title: ['channel_title'],
+  // For embeddings: ASC = Missing first (NULL/0 first), DESC = Available first (with dimensions)
+  embedding_dimensions: ['length(embedding)', 'embedding_dimensions'],
+  url: ['url'],
+  has_768d: ['length(embedding_768d) > 0'],
+  has_1536d: ['length(embedding_1536d) > 0'],
+  has_3072d: ['length(embedding_3072d) > 0'],
+  language_detected: ['language_detected']
+} as const;
+
+type VideoSortField = keyof typeof VIDEO_SORT_EXPRESSIONS;
+
 // Get all videos from database with pagination, search and sorting
-async function getAllVideos(host: string, headers: any, database: string, limit: number, offset: number, search: string, sort: string, sortDirection: string) {
+async function getAllVideos(db: Database, limit: number, offset: number, search: string, sort: string, sortDirection: string) {
   try {
-    console.log(`Getting all videos from database: ${database}, limit: ${limit}, offset: ${offset}, search: "${search}", sort: ${sort} ${sortDirection}`);
+    console.log(`Getting all videos from database: ${db.name}, limit: ${limit}, offset: ${offset}, search: "${search}", sort: ${sort} ${sortDirection}`);
 
     // Build WHERE clause for search
-    let whereClause = '';
-    if (search && search.trim()) {
-      const searchTerm = search.trim().replace(/'/g, "''");
-      whereClause = `WHERE (title ILIKE '%${searchTerm}%' OR channel_title ILIKE '%${searchTerm}%' OR description ILIKE '%${searchTerm}%')`;
-    }
+    const searchTerm = search.trim();
+    const whereClause = searchTerm
+      ? `WHERE (title ILIKE {pattern:String} OR channel_title ILIKE {pattern:String} OR description ILIKE {pattern:String})`
+      : '';
+    const params = {
+      pattern: `%${searchTerm.replace(/[\\%_]/g, '\\$&')}%`,
+      limit,
+      offset
+    };
 
-    // Build ORDER BY clause
-    const validSortFields = ['added_at', 'title', 'view_count', 'like_count', 'duration', 'channel_title', 'embedding_dimensions', 'url', 'has_768d', 'has_1536d', 'has_3072d', 'language_detected'];
-    const sortField = validSortFields.includes(sort) ? sort : 'added_at';
+    // Build ORDER BY clause from the fixed set of sortable expressions
+    const sortField = pickAllowed(sort, Object.keys(VIDEO_SORT_EXPRESSIONS) as VideoSortField[], 'added_at');
     const sortDir = sortDirection === 'asc' ? 'ASC' : 'DESC';
-
-    // Special handling for computed fields and special sorting
-    let orderByClause;
-    if (sortField === 'embedding_dimensions') {
-      // For embeddings: ASC = Missing first (NULL/0 first), DESC = Available first (with dimensions)
-      orderByClause = `ORDER BY length(embedding) ${sortDir}, embedding_dimensions ${sortDir}`;
-    } else if (sortField === 'has_768d') {
-      orderByClause = `ORDER BY (length(embedding) > 0 AND embedding_dimensions = 768) ${sortDir}`;
-    } else if (sortField === 'has_1536d') {
-      orderByClause = `ORDER BY (length(embedding) > 0 AND embedding_dimensions = 1536) ${sortDir}`;
-    } else if (sortField === 'has_3072d') {
-      orderByClause = `ORDER BY (length(embedding) > 0 AND embedding_dimensions = 3072) ${sortDir}`;
-    } else {
-      orderByClause = `ORDER BY ${sortField} ${sortDir}`;
-    }
+    const orderByClause = `ORDER BY ${VIDEO_SORT_EXPRESSIONS[sortField].map(expr => `${expr} ${sortDir}`).join(', ')}`;
 
     console.log(`Final sort field: ${sortField}, Direction: ${sortDir}`);
 
     // First get total count
-    const countQuery = `SELECT count() as total FROM ${database}.videos ${whereClause}`;
-
-    const countResponse = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: countQuery,
-    });
-
-    if (!countResponse.ok) {
-      const errorText = await countResponse.text();
-      console.error('Count query failed:', errorText);
+    let totalVideos = 0;
+    try {
+      const countRows = await db.query<{ total: string }>(
+        `SELECT count() as total FROM ${db.table('videos')} ${whereClause}`,
+        params
+      );
+      totalVideos = parseInt(countRows[0]?.total) || 0;
+    } catch (error: any) {
+      console.error('Count query failed:', error.message);
       return Response.json({
         success: false,
-        error: `Failed to get video count: ${errorText}`
+        error: `Failed to get video count: ${error.message}`
       });
     }
 
-    const countText = await countResponse.text();
-    const totalVideos = parseInt(countText.trim()) || 0;
-
     // Get the videos with all relevant information
     const query = `
       SELECT
@@ -917,6 +972,9 @@ async function getAllVideos(host: string, headers: any, database: string, limit:
         tags,
         category_id,
         length(embedding) as embedding_length,
+        length(embedding_768d) as embedding_768d_length,
+        length(embedding_1536d) as embedding_1536d_length,
+        length(embedding_3072d) as embedding_3072d_length,
         embedding_model,
         embedding_dimensions,
         embedding_generated_at,
@@ -925,59 +983,39 @@ async function getAllVideos(host: string, headers: any, database: string, limit:
         language_confidence,
         added_at,
         updated_at
-      FROM ${database}.videos
+      FROM ${db.table('videos')}
       ${whereClause}
       ${orderByClause}
-      LIMIT ${limit} OFFSET ${offset}
-      FORMAT JSONEachRow
+      LIMIT {limit:UInt32} OFFSET {offset:UInt32}
     `;
 
     console.log(`Executing SQL query: ${query.trim()}`);
 
-    const response = await fetch(host, {
-      method: 'POST',
-      headers,
-      body: query,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Videos query failed:', errorText);
+    let rows: any[];
+    try {
+      rows = await db.query(query, params);
+    } catch (error: any) {
+      console.error('Videos query failed:', error.message);
       return Response.json({
         success: false,
-        error: `Failed to fetch videos: ${errorText}`
+        error: `Failed to fetch videos: ${error.message}`
       });
     }
 
-    const resultText = await response.text();
-    console.log('Raw response from ClickHouse:', resultText.substring(0, 200) + '...');
-
-    // Parse JSONEachRow format
-    const videos = resultText
-      .trim()
-      .split('\n')
-      .filter(line => line.trim())
-      .map(line => {
-        try {
-          const video = JSON.parse(line);
-          // Add computed fields
-          video.has_embedding = video.embedding_length > 0;
-          video.embedding_status = video.embedding_length > 0
-            ? `${video.embedding_dimensions || video.embedding_length}D (${video.embedding_model || 'Unknown'})`
-            : 'No embedding';
-
-          // Add separate embedding type flags
-          video.has_768d = video.embedding_length > 0 && video.embedding_dimensions === 768;
-          video.has_1536d = video.embedding_length > 0 && video.embedding_dimensions === 1536;
-          video.has_3072d = video.embedding_length > 0 && video.embedding_dimensions === 3072;
-
-          return video;
-        } catch (e) {
-          console.error('Failed to parse video line:', line, e);
-          return null;
-        }
-      })
-      .filter(Boolean);
+    const videos = rows.map(video => {
+      // Add computed fields
+      video.has_embedding = video.embedding_length > 0;
+      video.embedding_status = video.embedding_length > 0
+        ? `${video.embedding_dimensions || video.embedding_length}D (${video.embedding_model || 'Unknown'})`
+        : 'No embedding';
+
+      // Add separate embedding type flags from the per-dimension columns
+      video.has_768d = video.embedding_768d_length > 0;
+      video.has_1536d = video.embedding_1536d_length > 0;
+      video.has_3072d = video.embedding_3072d_length > 0;
+
+      return video;
+    });
 
     console.log(`Successfully retrieved ${videos.length} videos out of ${totalVideos} total`);
 
@@ -997,4 +1035,4 @@ async function getAllVideos(host: string, headers: any, database: string, limit:
       error: `Fetch failed: ${error.message}`
     });
   }
-}
\ No newline at end of file
+}
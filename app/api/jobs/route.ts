@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { QueryValidationError } from '@/utils/clickhouse';
+import { ProfileError } from '@/utils/credential-profiles';
+import { EmbeddingProviderError } from '@/utils/embedding-providers';
+import {
+  Job,
+  JobError,
+  cancelJob,
+  createJob,
+  getJob,
+  isFinished,
+  listJobs,
+  retryJob,
+  subscribeToJob
+} from '@/utils/job-queue';
+
+function errorResponse(error: any) {
+  if (error instanceof JobError || error instanceof QueryValidationError || error instanceof ProfileError || error instanceof EmbeddingProviderError) {
+    return Response.json({ success: false, error: error.message }, { status: 400 });
+  }
+
+  console.error('Jobs API error:', error);
+  return Response.json({ success: false, error: error.message || 'Jobs request failed' }, { status: 500 });
+}
+
+// Job status:
+//   GET /api/jobs?profileId=...          jobs for a profile, newest first
+//   GET /api/jobs?id=...                 a single job
+//   GET /api/jobs?id=...&stream=1        server-sent updates until the job finishes
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const id = params.get('id');
+
+    if (!id) {
+      return Response.json({ success: true, jobs: listJobs(params.get('profileId') || '') });
+    }
+
+    const job = getJob(id);
+    if (!job) {
+      return Response.json({ success: false, error: `Unknown job: ${id}` }, { status: 404 });
+    }
+
+    if (params.get('stream') !== '1') {
+      return Response.json({ success: true, job });
+    }
+
+    const encoder = new TextEncoder();
+    let unsubscribe = () => {};
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const send = (update: Job) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(update)}\n\n`));
+          if (isFinished(update)) {
+            unsubscribe();
+            controller.close();
+          }
+        };
+
+        unsubscribe = subscribeToJob(id, send);
+        send(job);
+      },
+      cancel() {
+        unsubscribe();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+
+  } catch (error: any) {
+    return errorResponse(error);
+  }
+}
+
+// Job control: { action: 'create', type, profileId, params } | { action: 'cancel' | 'retry', id }
+export async function POST(request: NextRequest) {
+  try {
+    const { action, id, type, profileId, params } = await request.json();
+
+    switch (action) {
+      case 'create':
+        return Response.json({ success: true, job: createJob(type, profileId, params || {}) });
+      case 'cancel':
+        return Response.json({ success: true, job: cancelJob(id) });
+      case 'retry':
+        return Response.json({ success: true, job: retryJob(id) });
+      default:
+        return Response.json({ success: false, error: 'Invalid action. Use "create", "cancel" or "retry"' }, { status: 400 });
+    }
+
+  } catch (error: any) {
+    return errorResponse(error);
+  }
+}
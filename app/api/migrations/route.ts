@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { QueryValidationError, connectDatabase } from '@/utils/clickhouse';
+import { ProfileError, getClickHouseConfig } from '@/utils/credential-profiles';
+import { getMigrationStatus } from '@/utils/schema-migrations';
+
+// Schema migration status for a profile's database: GET /api/migrations?profileId=...
+// Migrations themselves are applied through the "migrate" action on /api/clickhouse.
+export async function GET(request: NextRequest) {
+  try {
+    const profileId = request.nextUrl.searchParams.get('profileId') || undefined;
+    const db = connectDatabase(getClickHouseConfig(profileId));
+
+    try {
+      const status = await getMigrationStatus(db);
+      return Response.json({
+        success: true,
+        database: db.name,
+        status
+      });
+    } finally {
+      await db.close();
+    }
+
+  } catch (error: any) {
+    if (error instanceof QueryValidationError || error instanceof ProfileError) {
+      return Response.json({
+        success: false,
+        error: error.message
+      }, { status: 400 });
+    }
+
+    console.error('Migrations API error:', error);
+    return Response.json({
+      success: false,
+      error: `Failed to read migration status: ${error.message}`
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { loadProfiles, toPublicProfile } from '@/utils/credential-profiles';
+
+// List the configured credential profiles without any of their secrets
+export async function GET() {
+  try {
+    const profiles = loadProfiles().map(toPublicProfile);
+
+    return Response.json({
+      success: true,
+      profiles
+    });
+
+  } catch (error: any) {
+    console.error('Profiles API error:', error);
+    return Response.json({
+      success: false,
+      error: error.message || 'Failed to load credential profiles',
+      profiles: []
+    }, { status: 500 });
+  }
+}
@@ -1,15 +1,17 @@
 import { NextRequest } from 'next/server';
+import { getApiKey } from '@/utils/credential-profiles';
 
 export async function POST(request: NextRequest) {
   try {
-    const { videoIds, apiKey } = await request.json();
+    const { videoIds, profileId } = await request.json();
 
     if (!videoIds || !Array.isArray(videoIds) || videoIds.length === 0) {
       return Response.json({ error: 'Video IDs array is required' }, { status: 400 });
     }
 
+    const apiKey = getApiKey(profileId, 'youtube');
     if (!apiKey) {
-      return Response.json({ error: 'YouTube API key is required' }, { status: 400 });
+      return Response.json({ error: 'The selected profile has no YouTube API key configured' }, { status: 400 });
     }
 
     // YouTube Data API allows up to 50 video IDs per request
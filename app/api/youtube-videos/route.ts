@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { getApiKey } from '@/utils/credential-profiles';
+
+// Proxy for the YouTube Data API videos endpoint so the API key never leaves the server
+export async function POST(request: NextRequest) {
+  try {
+    const { videoIds, profileId } = await request.json();
+
+    if (!videoIds || !Array.isArray(videoIds) || videoIds.length === 0) {
+      return Response.json({ error: 'Video IDs array is required' }, { status: 400 });
+    }
+
+    // YouTube Data API allows up to 50 video IDs per request
+    if (videoIds.length > 50) {
+      return Response.json({ error: 'At most 50 video IDs per request' }, { status: 400 });
+    }
+
+    const apiKey = getApiKey(profileId, 'youtube');
+    if (!apiKey) {
+      return Response.json({ error: 'The selected profile has no YouTube API key configured' }, { status: 400 });
+    }
+
+    const params = new URLSearchParams({
+      part: 'snippet,contentDetails',
+      id: videoIds.map(id => String(id)).join(','),
+      key: apiKey
+    });
+
+    const response = await fetch(`https://www.googleapis.com/youtube/v3/videos?${params}`);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      console.error('YouTube API error:', response.status, data?.error?.message);
+      return Response.json(
+        { error: data?.error?.message || `YouTube API error: ${response.status}` },
+        { status: response.status }
+      );
+    }
+
+    return Response.json({ items: data.items || [] });
+
+  } catch (error: any) {
+    console.error('YouTube videos API error:', error);
+    return Response.json(
+      { error: 'Failed to fetch video data', details: error.message },
+      { status: 500 }
+    );
+  }
+}
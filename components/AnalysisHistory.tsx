@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+
+export interface SavedAnalysisSummary {
+  session_id: string;
+  video_count: number;
+  cluster_count: number;
+  embedding_model: string;
+  clustering_algorithm: string;
+  created_at: string;
+}
+
+export interface SavedAnalysis extends SavedAnalysisSummary {
+  results: any; // the analysisData object written by saveAnalysisResults
+}
+
+interface AnalysisHistoryProps {
+  profileId: string;
+  refreshKey: number; // bump after saving to show the new run
+  onLoad: (analysis: SavedAnalysis) => void;
+}
+
+const PAGE_SIZE = 10;
+
+const EMPTY_FILTERS = { model: '', algorithm: '', from: '', to: '' };
+
+export default function AnalysisHistory({ profileId, refreshKey, onLoad }: AnalysisHistoryProps) {
+  const [analyses, setAnalyses] = useState<SavedAnalysisSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [models, setModels] = useState<string[]>([]);
+  const [algorithms, setAlgorithms] = useState<string[]>([]);
+  const [busySession, setBusySession] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const request = useCallback(async (action: string, data: Record<string, any>) => {
+    const response = await axios.post('/api/clickhouse', { action, profileId, data });
+    if (!response.data.success) throw new Error(response.data.error);
+    return response.data;
+  }, [profileId]);
+
+  const loadAnalyses = useCallback(async () => {
+    try {
+      const data = await request('list_analyses', { limit: PAGE_SIZE, offset, ...filters });
+      setAnalyses(data.analyses);
+      setTotal(data.total);
+      setModels(data.models);
+      setAlgorithms(data.algorithms);
+      setError('');
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    }
+  }, [request, offset, filters]);
+
+  useEffect(() => {
+    loadAnalyses();
+  }, [loadAnalyses, refreshKey]);
+
+  const updateFilter = (name: keyof typeof EMPTY_FILTERS, value: string) => {
+    setFilters(prev => ({ ...prev, [name]: value }));
+    setOffset(0);
+  };
+
+  const loadAnalysis = async (sessionId: string) => {
+    setBusySession(sessionId);
+    try {
+      const data = await request('get_analysis', { sessionId });
+      onLoad(data.analysis);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    } finally {
+      setBusySession(null);
+    }
+  };
+
+  const deleteAnalysis = async (sessionId: string) => {
+    if (!confirm(`Delete saved analysis ${sessionId}? This cannot be undone.`)) return;
+
+    setBusySession(sessionId);
+    try {
+      await request('delete_analysis', { sessionId });
+      // Step back a page when the last row of a page was deleted
+      if (analyses.length === 1 && offset > 0) {
+        setOffset(Math.max(0, offset - PAGE_SIZE));
+      } else {
+        await loadAnalyses();
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    } finally {
+      setBusySession(null);
+    }
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+  const inputClass = 'w-full mt-1 px-3 py-2 bg-black/50 border border-gray-800 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-black/30 rounded-xl p-6 border border-gray-800">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-white">📜 Analysis History</h3>
+        <button
+          onClick={loadAnalyses}
+          className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+        >
+          🔄 Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <label className="text-xs text-gray-400">
+          Model
+          <select value={filters.model} onChange={(e) => updateFilter('model', e.target.value)} className={inputClass}>
+            <option value="">All models</option>
+            {models.map(model => <option key={model} value={model}>{model}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400">
+          Algorithm
+          <select value={filters.algorithm} onChange={(e) => updateFilter('algorithm', e.target.value)} className={inputClass}>
+            <option value="">All algorithms</option>
+            {algorithms.map(algorithm => <option key={algorithm} value={algorithm}>{algorithm}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400">
+          From
+          <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-400">
+          To
+          <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {analyses.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved analyses{hasFilters ? ' match these filters' : ''}. Save a clustering run to see it here.</p>
+      ) : (
+        <div className="space-y-2">
+          {analyses.map(analysis => (
+            <div key={analysis.session_id} className="flex flex-wrap items-center justify-between gap-3 bg-black/40 rounded-lg p-3 border border-gray-700">
+              <div className="text-sm">
+                <div className="text-white font-medium">
+                  {analysis.created_at}
+                  <span className="ml-2 text-xs text-gray-500 font-mono">{analysis.session_id}</span>
+                </div>
+                <div className="text-xs text-gray-400">
+                  {analysis.cluster_count} clusters • {analysis.video_count} videos • {analysis.embedding_model} • {analysis.clustering_algorithm}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => loadAnalysis(analysis.session_id)}
+                  disabled={busySession !== null}
+                  className="px-3 py-1 text-xs bg-blue-600/20 text-blue-300 border border-blue-600/30 hover:bg-blue-600/30 disabled:opacity-50 rounded-lg transition-colors"
+                >
+                  {busySession === analysis.session_id ? 'Loading...' : 'Load'}
+                </button>
+                <button
+                  onClick={() => deleteAnalysis(analysis.session_id)}
+                  disabled={busySession !== null}
+                  className="px-3 py-1 text-xs bg-red-600/20 text-red-300 border border-red-600/30 hover:bg-red-600/30 disabled:opacity-50 rounded-lg transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-400">
+          <button
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            ← Newer
+          </button>
+          <span>{offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}</span>
+          <button
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={offset + PAGE_SIZE >= total}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            Older →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
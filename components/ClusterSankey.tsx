@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import type { ClusteringComparison } from '../utils/cluster-comparison';
+
+interface ClusterSankeyProps {
+  comparison: ClusteringComparison;
+  topWordsA: Record<number, string[]>;
+  topWordsB: Record<number, string[]>;
+  labelA: string;
+  labelB: string;
+}
+
+const CLUSTER_COLORS = [
+  '#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6',
+  '#EC4899', '#06B6D4', '#84CC16', '#F97316', '#6366F1',
+];
+const NOISE_COLOR = '#6B7280';
+
+const WIDTH = 900;
+const HEIGHT = 420;
+const NODE_WIDTH = 14;
+const NODE_GAP = 6;
+const LABEL_WIDTH = 200;
+
+interface SankeyNode {
+  cluster: number;
+  index: number; // row or column in the contingency matrix
+  y: number;
+  height: number;
+  count: number;
+}
+
+// Stack nodes top to bottom with heights proportional to their video counts
+function layoutNodes(order: number[], labels: number[], counts: number[], total: number): SankeyNode[] {
+  const available = HEIGHT - NODE_GAP * Math.max(0, order.length - 1);
+  let y = 0;
+  return order.map(index => {
+    const height = total > 0 ? (counts[index] / total) * available : 0;
+    const node = { cluster: labels[index], index, y, height, count: counts[index] };
+    y += height + NODE_GAP;
+    return node;
+  });
+}
+
+const clusterName = (cluster: number, topWords: Record<number, string[]>) =>
+  cluster === -1 ? 'Noise' : `${cluster + 1}: ${(topWords[cluster] || []).slice(0, 3).join(', ')}`;
+
+// Alluvial diagram of how the shared videos move between the clusters of two runs
+export default function ClusterSankey({ comparison, topWordsA, topWordsB, labelA, labelB }: ClusterSankeyProps) {
+  const { clustersA, clustersB, contingency, alignment, sharedVideos } = comparison;
+
+  const { leftNodes, rightNodes, links } = useMemo(() => {
+    const rowSums = contingency.map(row => row.reduce((sum, count) => sum + count, 0));
+    const columnSums = clustersB.map((_, j) => contingency.reduce((sum, row) => sum + row[j], 0));
+
+    // Right-hand clusters follow their aligned left-hand cluster to keep crossings down
+    const alignedTo = new Map(alignment.map(pair => [pair.clusterB, pair.clusterA]));
+    const rowOrder = clustersA.map((_, i) => i);
+    const columnOrder = clustersB.map((_, j) => j).sort((a, b) => {
+      const rankA = alignedTo.has(clustersB[a]) ? clustersA.indexOf(alignedTo.get(clustersB[a])!) : clustersA.length;
+      const rankB = alignedTo.has(clustersB[b]) ? clustersA.indexOf(alignedTo.get(clustersB[b])!) : clustersA.length;
+      return rankA - rankB || clustersB[a] - clustersB[b];
+    });
+
+    const leftNodes = layoutNodes(rowOrder, clustersA, rowSums, sharedVideos);
+    const rightNodes = layoutNodes(columnOrder, clustersB, columnSums, sharedVideos);
+    const rightByIndex = new Map(rightNodes.map(node => [node.index, node]));
+
+    // Each node hands out its height to its links in order
+    const leftOffset = new Map(leftNodes.map(node => [node.index, node.y]));
+    const rightOffset = new Map(rightNodes.map(node => [node.index, node.y]));
+    const links: { path: string; color: string; title: string }[] = [];
+
+    leftNodes.forEach(left => {
+      columnOrder.forEach(j => {
+        const count = contingency[left.index][j];
+        if (count === 0) return;
+        const right = rightByIndex.get(j)!;
+        const leftHeight = left.height * (count / left.count);
+        const rightHeight = right.height * (count / right.count);
+        const y0 = leftOffset.get(left.index)!;
+        const y1 = rightOffset.get(j)!;
+        leftOffset.set(left.index, y0 + leftHeight);
+        rightOffset.set(j, y1 + rightHeight);
+
+        const x0 = LABEL_WIDTH + NODE_WIDTH;
+        const x1 = WIDTH - LABEL_WIDTH - NODE_WIDTH;
+        const xm = (x0 + x1) / 2;
+        links.push({
+          path: `M${x0},${y0} C${xm},${y0} ${xm},${y1} ${x1},${y1} L${x1},${y1 + rightHeight} C${xm},${y1 + rightHeight} ${xm},${y0 + leftHeight} ${x0},${y0 + leftHeight} Z`,
+          color: left.cluster === -1 ? NOISE_COLOR : CLUSTER_COLORS[left.cluster % CLUSTER_COLORS.length],
+          title: `${labelA} ${clusterName(left.cluster, topWordsA)} → ${labelB} ${clusterName(right.cluster, topWordsB)}: ${count} videos`
+        });
+      });
+    });
+
+    return { leftNodes, rightNodes, links };
+  }, [clustersA, clustersB, contingency, alignment, sharedVideos, topWordsA, topWordsB, labelA, labelB]);
+
+  const nodeColor = (cluster: number) => cluster === -1 ? NOISE_COLOR : CLUSTER_COLORS[cluster % CLUSTER_COLORS.length];
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex justify-between text-xs text-gray-400 mb-2" style={{ width: WIDTH }}>
+        <span>{labelA}</span>
+        <span>{labelB}</span>
+      </div>
+      <svg width={WIDTH} height={HEIGHT} className="block">
+        {links.map((link, index) => (
+          <path key={index} d={link.path} fill={link.color} fillOpacity={0.35} className="hover:fill-opacity-70">
+            <title>{link.title}</title>
+          </path>
+        ))}
+        {leftNodes.map(node => (
+          <g key={`a${node.cluster}`}>
+            <rect x={LABEL_WIDTH} y={node.y} width={NODE_WIDTH} height={Math.max(1, node.height)} fill={nodeColor(node.cluster)} />
+            <text x={LABEL_WIDTH - 6} y={node.y + node.height / 2} textAnchor="end" dominantBaseline="middle" className="fill-gray-300 text-[11px]">
+              {clusterName(node.cluster, topWordsA)} ({node.count})
+            </text>
+          </g>
+        ))}
+        {rightNodes.map(node => (
+          <g key={`b${node.cluster}`}>
+            <rect x={WIDTH - LABEL_WIDTH - NODE_WIDTH} y={node.y} width={NODE_WIDTH} height={Math.max(1, node.height)} fill={nodeColor(node.cluster)} />
+            <text x={WIDTH - LABEL_WIDTH + 6} y={node.y + node.height / 2} dominantBaseline="middle" className="fill-gray-300 text-[11px]">
+              {clusterName(node.cluster, topWordsB)} ({node.count})
+            </text>
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+}
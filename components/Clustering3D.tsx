@@ -1,8 +1,9 @@
 'use client';
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import * as THREE from 'three';
-import { performPCA3D, Point3D } from '../utils/dimensionality-reduction';
+import { Point3D, formatExplainedVariance, scaleProjections3D } from '../utils/dimensionality-reduction';
+import LayoutControls, { LayoutSettings, useLayoutProjections } from './LayoutControls';
 
 interface Clustering3DProps {
   videos: { id: string; title: string }[];
@@ -10,6 +11,8 @@ interface Clustering3DProps {
   clusterSummaries: any[];
   isOpen: boolean;
   onClose: () => void;
+  layoutSettings: LayoutSettings;
+  onLayoutSettingsChange: (settings: LayoutSettings) => void;
 }
 
 interface VideoShape3D {
@@ -32,7 +35,9 @@ export default function Clustering3D({
   clusteringResults,
   clusterSummaries,
   isOpen,
-  onClose
+  onClose,
+  layoutSettings,
+  onLayoutSettingsChange
 }: Clustering3DProps) {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
@@ -49,6 +54,23 @@ export default function Clustering3D({
   const [isRotating, setIsRotating] = useState(true);
   const [cameraDistance, setCameraDistance] = useState(1000);
 
+  // Layout input, in the same order initVideoShapes creates the shapes
+  const layoutVectors = useMemo(() => {
+    if (!clusteringResults || !videos.length || !isOpen) return [];
+
+    const videoIds = new Set(videos.map(video => video.id));
+    const vectors: number[][] = [];
+    clusteringResults.clusters.forEach((cluster: any[]) => {
+      cluster.forEach((clusterItem: any) => {
+        if (videoIds.has(clusterItem.videoId)) {
+          vectors.push(clusterItem.vector || new Array(8).fill(0));
+        }
+      });
+    });
+    return vectors;
+  }, [clusteringResults, videos, isOpen]);
+  const layout = useLayoutProjections(layoutVectors, 3, layoutSettings);
+
   // Initialize 3D scene
   const initScene = useCallback(() => {
     if (!mountRef.current || !isOpen) return;
@@ -141,11 +163,12 @@ export default function Clustering3D({
     });
 
     const shapes: VideoShape3D[] = [];
+    const videosById = new Map(videos.map(video => [video.id, video]));
 
     // Process each cluster to get individual videos
     clusteringResults.clusters.forEach((cluster: any[], clusterIndex: number) => {
       cluster.forEach((clusterItem: any) => {
-        const matchingVideo = videos.find(v => v.title === clusterItem.title);
+        const matchingVideo = clusterItem.videoId ? videosById.get(clusterItem.videoId) : undefined;
         if (matchingVideo) {
           shapes.push({
             id: matchingVideo.id,
@@ -160,15 +183,9 @@ export default function Clustering3D({
       });
     });
 
-    // Position videos using 3D PCA
+    // Meshes start at the origin and are moved once the layout is ready
     if (shapes.length > 0) {
-      const vectors = shapes.map(s => s.vector);
-      console.log('3D PCA input vectors:', vectors.length, 'vectors of dimension', vectors[0]?.length);
-      const positions3D = performPCA3D(vectors, { width: window.innerWidth, height: window.innerHeight });
-      console.log('3D PCA output positions:', positions3D.slice(0, 3));
-
-      shapes.forEach((shape, index) => {
-        shape.position = positions3D[index] || { x: 0, y: 0, z: 0 };
+      shapes.forEach(shape => {
 
         // Create 3D mesh (sphere)
         const geometry = new THREE.SphereGeometry(8, 16, 16);
@@ -194,6 +211,7 @@ export default function Clustering3D({
         });
         const glowMesh = new THREE.Mesh(glowGeometry, glowMaterial);
         glowMesh.position.set(shape.position.x, shape.position.y, shape.position.z);
+        mesh.userData.glowMesh = glowMesh;
 
         shape.mesh = mesh;
 
@@ -207,6 +225,19 @@ export default function Clustering3D({
     setVideoShapes3D(shapes);
   }, [clusteringResults, videos, videoShapes3D]);
 
+  // Move meshes to the selected layout's positions
+  useEffect(() => {
+    if (videoShapes3D.length === 0 || layout.projections.length !== videoShapes3D.length) return;
+
+    const positions3D = scaleProjections3D(layout.projections, Math.min(window.innerWidth, window.innerHeight) * 0.4);
+
+    videoShapes3D.forEach((shape, index) => {
+      shape.position = positions3D[index] || { x: 0, y: 0, z: 0 };
+      shape.mesh.position.set(shape.position.x, shape.position.y, shape.position.z);
+      shape.mesh.userData.glowMesh?.position.set(shape.position.x, shape.position.y, shape.position.z);
+    });
+  }, [videoShapes3D, layout.projections]);
+
   // Animation loop
   const animate = useCallback(() => {
     if (!rendererRef.current || !sceneRef.current || !cameraRef.current) return;
@@ -368,6 +399,20 @@ export default function Clustering3D({
           <div className="text-sm text-gray-400">
             {videoShapes3D.length} videos • {clusterSummaries.length} clusters in 3D space
           </div>
+          {layoutSettings.method === 'pca' && layout.explainedVariance.length > 0 && (
+            <div className="text-xs text-gray-500 mt-1">
+              Explained variance: {formatExplainedVariance(layout.explainedVariance)}
+            </div>
+          )}
+          <div className="mt-2">
+            <LayoutControls
+              settings={layoutSettings}
+              onChange={onLayoutSettingsChange}
+              progress={layout.progress}
+              message={layout.message}
+              error={layout.error}
+            />
+          </div>
         </div>
 
         <div className="flex items-center gap-4">
@@ -1,7 +1,8 @@
 'use client';
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { ProcessedVideo, positionBySimilarity, performPCA } from '../utils/dimensionality-reduction';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { ProcessedVideo, formatExplainedVariance, scaleProjections2D } from '../utils/dimensionality-reduction';
+import LayoutControls, { DEFAULT_LAYOUT_SETTINGS, LayoutSettings, useLayoutProjections } from './LayoutControls';
 import FullscreenCanvas from './FullscreenCanvas';
 import ExportControls from './ExportControls';
 import Clustering3D from './Clustering3D';
@@ -31,6 +32,8 @@ const CLUSTER_COLORS = [
   '#6366F1', // indigo
 ];
 
+const NOISE_COLOR = '#6B7280'; // gray, HDBSCAN unclustered videos
+
 export default function ClusteringCanvas({ videos, clusteringResults, clusterSummaries }: ClusteringCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [videoShapes, setVideoShapes] = useState<VideoShape[]>([]);
@@ -44,28 +47,29 @@ export default function ClusteringCanvas({ videos, clusteringResults, clusterSum
   const [zoom, setZoom] = useState(1);
   const [isFullscreenOpen, setIsFullscreenOpen] = useState(false);
   const [is3DOpen, setIs3DOpen] = useState(false);
+  const [layoutSettings, setLayoutSettings] = useState<LayoutSettings>(DEFAULT_LAYOUT_SETTINGS);
 
-  // Initialize video shapes with positions based on embeddings
-  useEffect(() => {
-    if (!clusteringResults || !videos.length) return;
+  // One shape for each clustered video, positioned once the layout is ready
+  const baseShapes = useMemo(() => {
+    if (!clusteringResults || !videos.length) return [];
 
     console.log('Initializing video shapes...', { videosCount: videos.length, clustersCount: clusteringResults.clusters.length });
 
     // Create one shape for each video
     const shapes: VideoShape[] = [];
+    const videosById = new Map(videos.map(video => [video.id, video]));
 
     // Process each cluster to get individual videos
     clusteringResults.clusters.forEach((cluster: any[], clusterIndex: number) => {
       cluster.forEach((clusterItem: any) => {
-        // Find the corresponding video from the videos array
-        const matchingVideo = videos.find(v => v.title === clusterItem.title);
+        const matchingVideo = clusterItem.videoId ? videosById.get(clusterItem.videoId) : undefined;
         if (matchingVideo) {
           shapes.push({
             id: matchingVideo.id,
             title: clusterItem.title,
             vector: clusterItem.vector || new Array(8).fill(0),
             clusterId: clusterIndex,
-            position: { x: 0, y: 0 }, // Will be set below
+            position: { x: 500, y: 350 }, // Will be set by the layout
             isDragging: false,
             radius: 6,
             color: CLUSTER_COLORS[clusterIndex % CLUSTER_COLORS.length]
@@ -74,20 +78,42 @@ export default function ClusteringCanvas({ videos, clusteringResults, clusterSum
       });
     });
 
-    // Position videos based on their vector similarities using PCA
-    if (shapes.length > 0) {
-      const vectors = shapes.map(s => s.vector);
-      const positions2D = performPCA(vectors);
-
-      shapes.forEach((shape, index) => {
-        shape.position = positions2D[index] || { x: 500, y: 350 };
-      });
-    }
+    // HDBSCAN noise points are drawn too, so outliers stay visible
+    clusteringResults.noise?.forEach((noiseItem: any) => {
+      const matchingVideo = noiseItem.videoId ? videosById.get(noiseItem.videoId) : undefined;
+      if (matchingVideo) {
+        shapes.push({
+          id: matchingVideo.id,
+          title: noiseItem.title,
+          vector: noiseItem.vector || new Array(8).fill(0),
+          clusterId: -1,
+          position: { x: 500, y: 350 },
+          isDragging: false,
+          radius: 4,
+          color: NOISE_COLOR
+        });
+      }
+    });
 
     console.log('Created video shapes:', shapes.length);
-    setVideoShapes(shapes);
+    return shapes;
   }, [clusteringResults, videos]);
 
+  // Position videos based on their vector similarities with the selected layout
+  const layoutVectors = useMemo(() => baseShapes.map(shape => shape.vector), [baseShapes]);
+  const layout = useLayoutProjections(layoutVectors, 2, layoutSettings);
+
+  useEffect(() => {
+    const positions2D = layout.projections.length === baseShapes.length
+      ? scaleProjections2D(layout.projections)
+      : [];
+
+    setVideoShapes(baseShapes.map((shape, index) => ({
+      ...shape,
+      position: positions2D[index] || shape.position
+    })));
+  }, [baseShapes, layout.projections]);
+
   // Draw the canvas
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
@@ -292,9 +318,22 @@ export default function ClusteringCanvas({ videos, clusteringResults, clusterSum
       <div className="flex justify-between items-center mb-4">
         <p className="text-gray-400 text-sm">
           Videos positioned by semantic similarity. Hover to see titles, drag shapes to reposition, click+drag canvas to pan, scroll to zoom.
+          {layoutSettings.method === 'pca' && layout.explainedVariance.length > 0 && (
+            <span className="block text-xs text-gray-500 mt-1">
+              Explained variance: {formatExplainedVariance(layout.explainedVariance)}
+            </span>
+          )}
         </p>
 
         <div className="flex items-center gap-2">
+          <LayoutControls
+            settings={layoutSettings}
+            onChange={setLayoutSettings}
+            progress={layout.progress}
+            message={layout.message}
+            error={layout.error}
+          />
+
           <button
             onClick={() => setIsFullscreenOpen(true)}
             className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-lg hover:from-purple-700 hover:to-blue-700 transition-all duration-300 font-medium text-sm flex items-center gap-2"
@@ -344,7 +383,7 @@ export default function ClusteringCanvas({ videos, clusteringResults, clusterSum
           >
             <div className="text-sm font-medium">{hoveredVideo.title}</div>
             <div className="text-xs text-gray-400 mt-1">
-              Cluster {hoveredVideo.clusterId + 1} • {hoveredVideo.color}
+              {hoveredVideo.clusterId === -1 ? 'Unclustered' : `Cluster ${hoveredVideo.clusterId + 1}`} • {hoveredVideo.color}
             </div>
           </div>
         )}
@@ -377,10 +416,10 @@ export default function ClusteringCanvas({ videos, clusteringResults, clusterSum
             <div key={index} className="flex items-center gap-2 text-xs">
               <div
                 className="w-3 h-3 rounded-full"
-                style={{ backgroundColor: CLUSTER_COLORS[index % CLUSTER_COLORS.length] }}
+                style={{ backgroundColor: cluster.isNoise ? NOISE_COLOR : CLUSTER_COLORS[index % CLUSTER_COLORS.length] }}
               />
               <span className="text-gray-300">
-                Cluster {index + 1} ({cluster.size} videos)
+                {cluster.isNoise ? 'Unclustered' : `Cluster ${index + 1}`} ({cluster.size} videos)
               </span>
             </div>
           ))}
@@ -404,6 +443,8 @@ export default function ClusteringCanvas({ videos, clusteringResults, clusterSum
         clusterSummaries={clusterSummaries}
         isOpen={isFullscreenOpen}
         onClose={() => setIsFullscreenOpen(false)}
+        layoutSettings={layoutSettings}
+        onLayoutSettingsChange={setLayoutSettings}
       />
 
       {/* 3D Canvas Modal */}
@@ -413,6 +454,8 @@ export default function ClusteringCanvas({ videos, clusteringResults, clusterSum
         clusterSummaries={clusterSummaries}
         isOpen={is3DOpen}
         onClose={() => setIs3DOpen(false)}
+        layoutSettings={layoutSettings}
+        onLayoutSettingsChange={setLayoutSettings}
       />
     </div>
   );
@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dendrogram,
+  LINKAGE_METHODS,
+  clusterCountAtHeight,
+  cutDendrogramByCount,
+  cutDendrogramByHeight,
+  heightForClusterCount
+} from '../utils/hierarchical';
+
+interface DendrogramViewProps {
+  dendrogram: Dendrogram;
+  clusterCount: number;
+  onCut: (labels: number[]) => void;
+}
+
+// Only the top merges are drawn; everything below them is collapsed into one leaf
+const MAX_VISIBLE_LEAVES = 40;
+const MAX_CUT_CLUSTERS = 50;
+
+const WIDTH = 800;
+const HEIGHT = 260;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 44 };
+
+interface DrawnNode {
+  x: number;
+  height: number;
+  size: number;
+  children?: [DrawnNode, DrawnNode];
+}
+
+function buildVisibleTree(dendrogram: Dendrogram): { root: DrawnNode | null; leafCount: number } {
+  const { merges, leafCount: n } = dendrogram;
+  if (merges.length === 0) return { root: null, leafCount: 0 };
+
+  const visibleLeaves = Math.min(MAX_VISIBLE_LEAVES, n);
+  const firstDrawnNode = n + (n - visibleLeaves);
+  let nextX = 0;
+
+  const visit = (node: number): DrawnNode => {
+    if (node < firstDrawnNode) {
+      return { x: nextX++, height: 0, size: node < n ? 1 : merges[node - n].size };
+    }
+    const merge = merges[node - n];
+    const left = visit(merge.left);
+    const right = visit(merge.right);
+    return { x: (left.x + right.x) / 2, height: merge.height, size: merge.size, children: [left, right] };
+  };
+
+  const root = visit(n + merges.length - 1);
+  return { root, leafCount: nextX };
+}
+
+export default function DendrogramView({ dendrogram, clusterCount, onCut }: DendrogramViewProps) {
+  const [mode, setMode] = useState<'count' | 'height'>('count');
+  const [k, setK] = useState(clusterCount);
+  const [height, setHeight] = useState(() => heightForClusterCount(dendrogram, clusterCount));
+
+  // A new clustering run brings a new tree; start from the cut it was made with
+  useEffect(() => {
+    setK(clusterCount);
+    setHeight(heightForClusterCount(dendrogram, clusterCount));
+  }, [dendrogram]);
+
+  const { root, leafCount } = useMemo(() => buildVisibleTree(dendrogram), [dendrogram]);
+  const maxHeight = dendrogram.merges[dendrogram.merges.length - 1]?.height || 1;
+  const maxK = Math.min(MAX_CUT_CLUSTERS, dendrogram.leafCount);
+  const cutHeight = mode === 'count' ? heightForClusterCount(dendrogram, k) : height;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const xFor = (x: number) => PADDING.left + (leafCount > 1 ? (x / (leafCount - 1)) * plotWidth : plotWidth / 2);
+  const yFor = (h: number) => PADDING.top + (1 - h / maxHeight) * plotHeight;
+
+  const handleCountChange = (value: number) => {
+    const clusters = Math.min(Math.max(1, value), maxK);
+    setK(clusters);
+    setHeight(heightForClusterCount(dendrogram, clusters));
+    onCut(cutDendrogramByCount(dendrogram, clusters));
+  };
+
+  const handleHeightChange = (value: number) => {
+    setHeight(value);
+    setK(clusterCountAtHeight(dendrogram, value));
+    onCut(cutDendrogramByHeight(dendrogram, value));
+  };
+
+  const lines: React.ReactElement[] = [];
+  const leaves: DrawnNode[] = [];
+  const collect = (node: DrawnNode) => {
+    if (!node.children) {
+      leaves.push(node);
+      return;
+    }
+    node.children.forEach(child => {
+      lines.push(
+        <line key={lines.length} x1={xFor(child.x)} y1={yFor(child.height)} x2={xFor(child.x)} y2={yFor(node.height)} />
+      );
+      collect(child);
+    });
+    lines.push(
+      <line key={lines.length} x1={xFor(node.children[0].x)} y1={yFor(node.height)} x2={xFor(node.children[1].x)} y2={yFor(node.height)} />
+    );
+  };
+  if (root) collect(root);
+
+  const linkageLabel = LINKAGE_METHODS.find(method => method.id === dendrogram.linkage)?.label || dendrogram.linkage;
+
+  return (
+    <div className="backdrop-blur-xl bg-black/30 rounded-2xl border border-gray-800 p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <div>
+          <h4 className="text-lg font-semibold text-white flex items-center gap-2">
+            <span>🌳</span>
+            Dendrogram
+          </h4>
+          <p className="text-xs text-gray-400">
+            {linkageLabel} linkage, {dendrogram.metric} distance • {dendrogram.leafCount} videos
+            {dendrogram.leafCount > MAX_VISIBLE_LEAVES && ` • top ${MAX_VISIBLE_LEAVES} branches shown`}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3 text-sm">
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as 'count' | 'height')}
+            className="px-2 py-1 bg-black/50 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="count">Cut by clusters (K)</option>
+            <option value="height">Cut by height</option>
+          </select>
+
+          {mode === 'count' ? (
+            <label className="flex items-center gap-2 text-gray-400">
+              K
+              <input
+                type="range"
+                min={1}
+                max={maxK}
+                value={k}
+                onChange={(e) => handleCountChange(parseInt(e.target.value))}
+              />
+              <span className="w-6 text-white">{k}</span>
+            </label>
+          ) : (
+            <label className="flex items-center gap-2 text-gray-400">
+              Height
+              <input
+                type="range"
+                min={0}
+                max={maxHeight}
+                step={maxHeight / 200}
+                value={height}
+                onChange={(e) => handleHeightChange(parseFloat(e.target.value))}
+              />
+              <span className="w-20 text-white">{height.toFixed(3)} ({k})</span>
+            </label>
+          )}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        <g stroke="#9CA3AF" strokeWidth={1}>{lines}</g>
+
+        {leafCount <= MAX_VISIBLE_LEAVES && leaves.map((leaf, index) => leaf.size > 1 && (
+          <text key={index} x={xFor(leaf.x)} y={HEIGHT - 8} fill="#6B7280" fontSize={9} textAnchor="middle">
+            {leaf.size}
+          </text>
+        ))}
+
+        <text x={PADDING.left - 6} y={yFor(maxHeight) + 4} fill="#6B7280" fontSize={10} textAnchor="end">
+          {maxHeight.toFixed(2)}
+        </text>
+        <text x={PADDING.left - 6} y={yFor(0) + 4} fill="#6B7280" fontSize={10} textAnchor="end">0</text>
+
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={yFor(cutHeight)}
+          y2={yFor(cutHeight)}
+          stroke="#EF4444"
+          strokeDasharray="6 4"
+          strokeWidth={1.5}
+        />
+      </svg>
+    </div>
+  );
+}
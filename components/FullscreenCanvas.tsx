@@ -1,8 +1,9 @@
 'use client';
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { ProcessedVideo, performPCA } from '../utils/dimensionality-reduction';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { ProcessedVideo, formatExplainedVariance, scaleProjections2D } from '../utils/dimensionality-reduction';
 import ExportControls from './ExportControls';
+import LayoutControls, { LayoutSettings, useLayoutProjections } from './LayoutControls';
 
 interface FullscreenCanvasProps {
   videos: { id: string; title: string }[];
@@ -10,6 +11,8 @@ interface FullscreenCanvasProps {
   clusterSummaries: any[];
   isOpen: boolean;
   onClose: () => void;
+  layoutSettings: LayoutSettings;
+  onLayoutSettingsChange: (settings: LayoutSettings) => void;
 }
 
 interface VideoShape extends ProcessedVideo {
@@ -28,7 +31,9 @@ export default function FullscreenCanvas({
   clusteringResults,
   clusterSummaries,
   isOpen,
-  onClose
+  onClose,
+  layoutSettings,
+  onLayoutSettingsChange
 }: FullscreenCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [videoShapes, setVideoShapes] = useState<VideoShape[]>([]);
@@ -68,14 +73,15 @@ export default function FullscreenCanvas({
   }, [isOpen]);
 
   // Initialize video shapes
-  useEffect(() => {
-    if (!clusteringResults || !videos.length || !isOpen) return;
+  const baseShapes = useMemo(() => {
+    if (!clusteringResults || !videos.length || !isOpen) return [];
 
     const shapes: VideoShape[] = [];
+    const videosById = new Map(videos.map(video => [video.id, video]));
 
     clusteringResults.clusters.forEach((cluster: any[], clusterIndex: number) => {
       cluster.forEach((clusterItem: any) => {
-        const matchingVideo = videos.find(v => v.title === clusterItem.title);
+        const matchingVideo = clusterItem.videoId ? videosById.get(clusterItem.videoId) : undefined;
         if (matchingVideo) {
           shapes.push({
             id: matchingVideo.id,
@@ -91,69 +97,30 @@ export default function FullscreenCanvas({
       });
     });
 
-    // Position videos using PCA with fullscreen dimensions
-    if (shapes.length > 0) {
-      const vectors = shapes.map(s => s.vector);
-      const positions2D = performPCAForFullscreen(vectors, canvasSize);
+    return shapes;
+  }, [clusteringResults, videos, isOpen]);
 
-      shapes.forEach((shape, index) => {
-        shape.position = positions2D[index] || { x: canvasSize.width / 2, y: canvasSize.height / 2 };
-      });
-    }
+  // Position videos with the selected layout, scaled to fullscreen dimensions
+  const layoutVectors = useMemo(() => baseShapes.map(shape => shape.vector), [baseShapes]);
+  const layout = useLayoutProjections(layoutVectors, 2, layoutSettings);
+
+  useEffect(() => {
+    const positions2D = layout.projections.length === baseShapes.length
+      ? scaleProjections2D(layout.projections, { ...canvasSize, padding: 100 })
+      : [];
 
-    setVideoShapes(shapes);
+    setVideoShapes(baseShapes.map((shape, index) => ({
+      ...shape,
+      position: positions2D[index] || { x: canvasSize.width / 2, y: canvasSize.height / 2 }
+    })));
+  }, [baseShapes, layout.projections, canvasSize]);
 
-    // Reset view when opening
+  // Reset view when opening
+  useEffect(() => {
+    if (!isOpen) return;
     setCanvasOffset({ x: 0, y: 0 });
     setZoom(1);
-  }, [clusteringResults, videos, isOpen, canvasSize]);
-
-  // PCA adapted for fullscreen dimensions
-  const performPCAForFullscreen = (vectors: number[][], size: { width: number; height: number }) => {
-    if (vectors.length === 0) return [];
-
-    const numSamples = vectors.length;
-    const numFeatures = vectors[0].length;
-
-    // Calculate mean
-    const mean = new Array(numFeatures).fill(0);
-    for (const vector of vectors) {
-      for (let i = 0; i < numFeatures; i++) {
-        mean[i] += vector[i];
-      }
-    }
-    for (let i = 0; i < numFeatures; i++) {
-      mean[i] /= numSamples;
-    }
-
-    // Center data
-    const centeredData = vectors.map(vector =>
-      vector.map((value, i) => value - mean[i])
-    );
-
-    // Project to 2D (simplified PCA)
-    const projectedPoints = centeredData.map(dataPoint => ({
-      x: dataPoint[0] || 0,
-      y: dataPoint[1] || 0
-    }));
-
-    // Normalize to fullscreen coordinates
-    const xValues = projectedPoints.map(p => p.x);
-    const yValues = projectedPoints.map(p => p.y);
-    const xMin = Math.min(...xValues);
-    const xMax = Math.max(...xValues);
-    const yMin = Math.min(...yValues);
-    const yMax = Math.max(...yValues);
-
-    const xRange = xMax - xMin || 1;
-    const yRange = yMax - yMin || 1;
-    const padding = 100;
-
-    return projectedPoints.map(point => ({
-      x: ((point.x - xMin) / xRange) * (size.width - 2 * padding) + padding,
-      y: ((point.y - yMin) / yRange) * (size.height - 2 * padding) + padding
-    }));
-  };
+  }, [isOpen]);
 
   // Drawing function
   const draw = useCallback(() => {
@@ -336,7 +303,16 @@ export default function FullscreenCanvas({
             </h3>
             <div className="text-sm text-gray-400">
               {videoShapes.length} videos • {clusterSummaries.length} clusters
+              {layoutSettings.method === 'pca' && layout.explainedVariance.length > 0 &&
+                ` • ${formatExplainedVariance(layout.explainedVariance)}`}
             </div>
+            <LayoutControls
+              settings={layoutSettings}
+              onChange={onLayoutSettingsChange}
+              progress={layout.progress}
+              message={layout.message}
+              error={layout.error}
+            />
           </div>
 
           <div className="flex items-center gap-4">
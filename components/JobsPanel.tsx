@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import type { Job, JobStatus } from '../utils/job-queue';
+
+interface JobsPanelProps {
+  profileId: string;
+  refreshKey: number; // bump after starting a job to show it immediately
+  onJobFinished?: (job: Job) => void;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const VISIBLE_JOBS = 10;
+
+const JOB_LABELS: Record<string, string> = {
+  'embeddings': '🧠 Embedding generation',
+  'language-detection': '🌐 Language detection'
+};
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-gray-600/20 text-gray-300',
+  running: 'bg-blue-600/20 text-blue-300',
+  completed: 'bg-green-600/20 text-green-300',
+  failed: 'bg-red-600/20 text-red-300',
+  cancelled: 'bg-yellow-600/20 text-yellow-300'
+};
+
+const isActive = (job: Job) => job.status === 'queued' || job.status === 'running';
+
+export default function JobsPanel({ profileId, refreshKey, onJobFinished }: JobsPanelProps) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [error, setError] = useState('');
+  const activeIds = useRef<Set<string>>(new Set());
+  const onJobFinishedRef = useRef(onJobFinished);
+  onJobFinishedRef.current = onJobFinished;
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const response = await axios.get('/api/jobs', { params: { profileId } });
+      const loaded: Job[] = response.data.jobs || [];
+
+      // Report jobs that were active on the previous poll and have now finished
+      loaded.forEach(job => {
+        if (activeIds.current.has(job.id) && !isActive(job)) onJobFinishedRef.current?.(job);
+      });
+      activeIds.current = new Set(loaded.filter(isActive).map(job => job.id));
+
+      setJobs(loaded);
+      setError('');
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs, refreshKey]);
+
+  // Poll only while something is queued or running
+  const hasActiveJobs = jobs.some(isActive);
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const timer = setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveJobs, loadJobs]);
+
+  const control = async (action: 'cancel' | 'retry', id: string) => {
+    try {
+      await axios.post('/api/jobs', { action, id });
+      await loadJobs();
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    }
+  };
+
+  return (
+    <div className="bg-black/30 rounded-xl p-6 border border-gray-800">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-white">Background Jobs</h3>
+        <button
+          onClick={loadJobs}
+          className="px-3 py-1 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+        >
+          🔄 Refresh
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-400 mb-4">
+        Embedding generation and language detection run on the server and keep going when you close or reload this page.
+      </p>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-gray-500">No jobs yet. Start one from the Database Tools in the Explorer tab.</p>
+      ) : (
+        <div className="space-y-3">
+          {jobs.slice(0, VISIBLE_JOBS).map(job => {
+            const percentage = job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+
+            return (
+              <div key={job.id} className="bg-black/40 rounded-lg p-4 border border-gray-700">
+                <div className="flex items-center justify-between gap-4 mb-2">
+                  <div className="flex items-center gap-3">
+                    <span className="text-white font-medium">{JOB_LABELS[job.type] || job.type}</span>
+                    <span className={`text-xs px-2 py-1 rounded ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isActive(job) && (
+                      <button
+                        onClick={() => control('cancel', job.id)}
+                        className="px-3 py-1 text-xs bg-red-600/20 text-red-300 border border-red-600/30 hover:bg-red-600/30 rounded-lg transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                    {(job.status === 'failed' || job.status === 'cancelled') && (
+                      <button
+                        onClick={() => control('retry', job.id)}
+                        className="px-3 py-1 text-xs bg-blue-600/20 text-blue-300 border border-blue-600/30 hover:bg-blue-600/30 rounded-lg transition-colors"
+                      >
+                        Resume
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="w-full bg-gray-800 rounded-full h-2 mb-2">
+                  <div
+                    className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-500"
+                    style={{ width: `${percentage}%` }}
+                  />
+                </div>
+
+                <div className="flex flex-wrap justify-between gap-2 text-xs text-gray-400">
+                  <span>{job.message}</span>
+                  <span>
+                    {job.processed}/{job.total} ({percentage}%)
+                    {job.stats.cacheHits != null && ` • cache ${job.stats.cacheHits} hits, ${job.stats.cacheMisses || 0} misses`}
+                    {job.retries > 0 && ` • ${job.retries} batch retries`}
+                    {' • '}{new Date(job.createdAt).toLocaleString()}
+                  </span>
+                </div>
+
+                {job.error && <p className="text-xs text-red-400 mt-2">{job.error}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
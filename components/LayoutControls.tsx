@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { LAYOUT_METHODS, LayoutMethod } from '../utils/dimensionality-reduction';
+import { LayoutCancelledError, runLayout } from '../utils/layout-runner';
+
+export interface LayoutSettings {
+  method: LayoutMethod;
+  perplexity: number;
+  nNeighbors: number;
+  seed: number;
+}
+
+export const DEFAULT_LAYOUT_SETTINGS: LayoutSettings = {
+  method: 'pca',
+  perplexity: 30,
+  nNeighbors: 15,
+  seed: 42
+};
+
+interface LayoutState {
+  projections: number[][];
+  explainedVariance: number[];
+  progress: number | null; // 0-1 while a layout is running
+  message: string;
+  error: string | null;
+}
+
+// Runs the selected layout in a worker whenever the vectors or settings change.
+// The previous projections stay on screen until the new ones arrive.
+export function useLayoutProjections(vectors: number[][], nComponents: 2 | 3, settings: LayoutSettings): LayoutState {
+  const [state, setState] = useState<LayoutState>({
+    projections: [],
+    explainedVariance: [],
+    progress: null,
+    message: '',
+    error: null
+  });
+
+  useEffect(() => {
+    if (vectors.length === 0) return;
+
+    setState(prev => ({ ...prev, progress: 0, message: 'Starting layout...', error: null }));
+
+    const job = runLayout(
+      settings.method,
+      vectors,
+      nComponents,
+      { seed: settings.seed, perplexity: settings.perplexity, nNeighbors: settings.nNeighbors },
+      (progress, message) => setState(prev => ({ ...prev, progress, message }))
+    );
+
+    job.promise
+      .then(result => setState({
+        projections: result.projections,
+        explainedVariance: result.explainedVarianceRatio || [],
+        progress: null,
+        message: '',
+        error: null
+      }))
+      .catch(error => {
+        if (error instanceof LayoutCancelledError) return;
+        console.error('Layout failed:', error);
+        setState(prev => ({ ...prev, progress: null, message: '', error: error.message }));
+      });
+
+    return () => job.cancel();
+  }, [vectors, nComponents, settings.method, settings.perplexity, settings.nNeighbors, settings.seed]);
+
+  return state;
+}
+
+interface LayoutControlsProps {
+  settings: LayoutSettings;
+  onChange: (settings: LayoutSettings) => void;
+  progress: number | null;
+  message: string;
+  error: string | null;
+}
+
+export default function LayoutControls({ settings, onChange, progress, message, error }: LayoutControlsProps) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <label className="text-gray-400">Layout</label>
+      <select
+        value={settings.method}
+        onChange={(e) => onChange({ ...settings, method: e.target.value as LayoutMethod })}
+        className="px-2 py-1 bg-black/50 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {LAYOUT_METHODS.map(method => (
+          <option key={method.id} value={method.id}>{method.label}</option>
+        ))}
+      </select>
+
+      {settings.method === 'tsne' && (
+        <label className="flex items-center gap-1 text-gray-400">
+          Perplexity
+          <input
+            type="number"
+            min={5}
+            max={100}
+            value={settings.perplexity}
+            onChange={(e) => onChange({ ...settings, perplexity: Math.max(5, parseInt(e.target.value) || 30) })}
+            className="w-16 px-2 py-1 bg-black/50 border border-gray-700 rounded-lg text-white text-sm"
+          />
+        </label>
+      )}
+
+      {settings.method === 'umap' && (
+        <label className="flex items-center gap-1 text-gray-400">
+          Neighbors
+          <input
+            type="number"
+            min={2}
+            max={200}
+            value={settings.nNeighbors}
+            onChange={(e) => onChange({ ...settings, nNeighbors: Math.max(2, parseInt(e.target.value) || 15) })}
+            className="w-16 px-2 py-1 bg-black/50 border border-gray-700 rounded-lg text-white text-sm"
+          />
+        </label>
+      )}
+
+      {settings.method !== 'pca' && (
+        <label className="flex items-center gap-1 text-gray-400">
+          Seed
+          <input
+            type="number"
+            value={settings.seed}
+            onChange={(e) => onChange({ ...settings, seed: parseInt(e.target.value) || 0 })}
+            className="w-16 px-2 py-1 bg-black/50 border border-gray-700 rounded-lg text-white text-sm"
+          />
+        </label>
+      )}
+
+      {progress !== null && (
+        <span className="text-xs text-blue-400" title={message}>
+          {Math.round(progress * 100)}%
+        </span>
+      )}
+      {error && <span className="text-xs text-red-400" title={error}>Layout failed</span>}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import ClusterSankey from './ClusterSankey';
+import type { SavedAnalysisSummary } from './AnalysisHistory';
+import type { ClusteringComparison } from '../utils/cluster-comparison';
+
+interface RunComparisonProps {
+  profileId: string;
+  refreshKey: number; // bump after saving so new runs can be picked
+}
+
+interface ComparisonResponse {
+  runA: Record<string, any>;
+  runB: Record<string, any>;
+  topWordsA: Record<number, string[]>;
+  topWordsB: Record<number, string[]>;
+  comparison: ClusteringComparison;
+}
+
+const SELECTABLE_RUNS = 100;
+
+const runLabel = (run: { embedding_model: string; clustering_algorithm: string; cluster_count: number; created_at: string }) =>
+  `${run.created_at} • ${run.embedding_model} • ${run.clustering_algorithm} • ${run.cluster_count} clusters`;
+
+// Agreement between two saved runs of the same videos
+export default function RunComparison({ profileId, refreshKey }: RunComparisonProps) {
+  const [runs, setRuns] = useState<SavedAnalysisSummary[]>([]);
+  const [runA, setRunA] = useState('');
+  const [runB, setRunB] = useState('');
+  const [result, setResult] = useState<ComparisonResponse | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadRuns = useCallback(async () => {
+    try {
+      const response = await axios.post('/api/clickhouse', {
+        action: 'list_analyses',
+        profileId,
+        data: { limit: SELECTABLE_RUNS }
+      });
+      if (!response.data.success) throw new Error(response.data.error);
+      setRuns(response.data.analyses);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns, refreshKey]);
+
+  const compare = async () => {
+    setComparing(true);
+    setError('');
+    try {
+      const response = await axios.post('/api/clickhouse', { action: 'compare_runs', profileId, data: { runA, runB } });
+      if (!response.data.success) throw new Error(response.data.error);
+      setResult(response.data);
+    } catch (err: any) {
+      setResult(null);
+      setError(err.response?.data?.error || err.message);
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const selectClass = 'w-full mt-1 px-3 py-2 bg-black/50 border border-gray-800 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const comparison = result?.comparison;
+
+  return (
+    <div className="bg-black/30 rounded-xl p-6 border border-gray-800">
+      <h3 className="text-xl font-semibold text-white mb-2">🔀 Compare Runs</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        How much two saved clusterings agree on the videos they share, e.g. after switching embedding model, K or algorithm.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end mb-4">
+        <label className="text-xs text-gray-400">
+          Run A
+          <select value={runA} onChange={(e) => setRunA(e.target.value)} className={selectClass}>
+            <option value="">Select a saved run...</option>
+            {runs.map(run => <option key={run.session_id} value={run.session_id}>{runLabel(run)}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400">
+          Run B
+          <select value={runB} onChange={(e) => setRunB(e.target.value)} className={selectClass}>
+            <option value="">Select a saved run...</option>
+            {runs.map(run => <option key={run.session_id} value={run.session_id}>{runLabel(run)}</option>)}
+          </select>
+        </label>
+        <button
+          onClick={compare}
+          disabled={!runA || !runB || runA === runB || comparing}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+        >
+          {comparing ? 'Comparing...' : 'Compare'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {result && comparison && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="text-center">
+              <div className="text-2xl font-bold text-blue-400">{comparison.adjustedRandIndex.toFixed(3)}</div>
+              <div className="text-sm text-gray-400">Adjusted Rand Index</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-purple-400">{comparison.normalizedMutualInformation.toFixed(3)}</div>
+              <div className="text-sm text-gray-400">Normalized Mutual Information</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-green-400">{comparison.sharedVideos}</div>
+              <div className="text-sm text-gray-400">Shared Videos</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-orange-400">{comparison.onlyInA} / {comparison.onlyInB}</div>
+              <div className="text-sm text-gray-400">Only in A / only in B</div>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            ARI is 1 for identical clusterings and around 0 for unrelated ones; NMI ranges from 0 to 1. Noise counts as its own cluster.
+          </p>
+
+          <ClusterSankey
+            comparison={comparison}
+            topWordsA={result.topWordsA}
+            topWordsB={result.topWordsB}
+            labelA={`A: ${result.runA.embedding_model} (${result.runA.clustering_algorithm})`}
+            labelB={`B: ${result.runB.embedding_model} (${result.runB.clustering_algorithm})`}
+          />
+
+          <div>
+            <h4 className="text-sm font-semibold text-white mb-2">Best-match cluster alignment</h4>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left text-gray-300">
+                <thead className="text-xs text-gray-400 border-b border-gray-700">
+                  <tr>
+                    <th className="py-2 pr-4">Cluster A</th>
+                    <th className="py-2 pr-4">Cluster B</th>
+                    <th className="py-2 pr-4">Shared videos</th>
+                    <th className="py-2">Jaccard</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.alignment.map(pair => (
+                    <tr key={`${pair.clusterA}-${pair.clusterB}`} className="border-b border-gray-800">
+                      <td className="py-2 pr-4">{pair.clusterA + 1}: {(result.topWordsA[pair.clusterA] || []).slice(0, 3).join(', ')}</td>
+                      <td className="py-2 pr-4">{pair.clusterB + 1}: {(result.topWordsB[pair.clusterB] || []).slice(0, 3).join(', ')}</td>
+                      <td className="py-2 pr-4">{pair.overlap}</td>
+                      <td className={`py-2 ${pair.jaccard >= 0.75 ? 'text-green-400' : pair.jaccard >= 0.5 ? 'text-yellow-400' : 'text-red-400'}`}>
+                        {pair.jaccard.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
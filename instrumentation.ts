@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Background jobs need Node APIs (fs, ClickHouse client); skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { resumeJobs } = await import('./utils/job-queue');
+    resumeJobs();
+  }
+}
@@ -1,5 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // transformers.js loads onnxruntime-node's native binding at runtime
+  serverExternalPackages: ['@huggingface/transformers', 'onnxruntime-node'],
   webpack: (config, { isServer }) => {
     if (!isServer) {
       // Ignore Node.js built-in modules in client-side bundles
@@ -0,0 +1,37 @@
+// Encrypt a credential profiles JSON file for utils/credential-profiles.ts
+// Usage: ODATAI_PROFILES_KEY=<passphrase> node scripts/encrypt-profiles.mjs profiles.json [.odatai/profiles.enc]
+import { createCipheriv, randomBytes, scryptSync } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+const [input, output = '.odatai/profiles.enc'] = process.argv.slice(2);
+const passphrase = process.env.ODATAI_PROFILES_KEY;
+
+if (!input || !passphrase) {
+  console.error('Usage: ODATAI_PROFILES_KEY=<passphrase> node scripts/encrypt-profiles.mjs <profiles.json> [output]');
+  process.exit(1);
+}
+
+// Validate before encrypting so a typo doesn't end up sealed in the file
+const profiles = JSON.parse(readFileSync(input, 'utf8'));
+if (!Array.isArray(profiles) || profiles.some(profile => typeof profile?.id !== 'string')) {
+  console.error('Profiles file must be a JSON array of objects with a string "id"');
+  process.exit(1);
+}
+
+const salt = randomBytes(16);
+const iv = randomBytes(12);
+const key = scryptSync(passphrase, salt, 32);
+const cipher = createCipheriv('aes-256-gcm', key, iv);
+const data = Buffer.concat([cipher.update(JSON.stringify(profiles), 'utf8'), cipher.final()]);
+
+mkdirSync(path.dirname(path.resolve(output)), { recursive: true });
+writeFileSync(output, JSON.stringify({
+  version: 1,
+  salt: salt.toString('base64'),
+  iv: iv.toString('base64'),
+  tag: cipher.getAuthTag().toString('base64'),
+  data: data.toString('base64')
+}, null, 2));
+
+console.log(`Encrypted ${profiles.length} profile(s) to ${output}`);
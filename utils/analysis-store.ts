@@ -0,0 +1,284 @@
+// Normalized copies of saved analyses (analysis_runs, cluster_assignments,
+// clusters; migration 004) so cluster membership can be queried across runs,
+// and the runs' generated cluster titles (cluster_labels; migration 005).
+// The run ID is the analysis_results session ID.
+import type { Database } from './clickhouse';
+import { ClusteringComparison, compareClusterings } from './cluster-comparison';
+import type { GeneratedClusterLabel } from './cluster-labelers';
+import type { ClusterResult, ClusteringResults, ClusterSummary } from './clustering';
+import type { RunManifest } from './run-manifest';
+
+// The parts of the page's saved analysisData that are normalized
+export interface SavedAnalysisData {
+  embeddingModel?: string;
+  clusteringAlgorithm?: string;
+  clusteringResults?: ClusteringResults;
+  clusterSummaries?: ClusterSummary[];
+  videos?: { id: string; title: string }[];
+  configuration?: { clusteringConfig?: { metric?: string; seed?: number } };
+  manifest?: RunManifest | null;
+}
+
+export interface VideoClusterHistoryEntry {
+  run_id: string;
+  created_at: string;
+  embedding_model: string;
+  clustering_algorithm: string;
+  cluster_count: number;
+  cluster_id: number; // -1 for HDBSCAN noise
+  distance: number;
+  probability: number | null;
+  top_words: string[];
+  cluster_size: number;
+}
+
+export interface RunClusterMember {
+  video_id: string;
+  title: string;
+  distance: number;
+  probability: number | null;
+}
+
+export interface RunCluster {
+  cluster_id: number;
+  size: number;
+  top_words: string[];
+  silhouette: number | null;
+  centroid?: number[];
+  members: RunClusterMember[];
+}
+
+export interface RunComparison {
+  runA: Record<string, any>;
+  runB: Record<string, any>;
+  topWordsA: Record<number, string[]>;
+  topWordsB: Record<number, string[]>;
+  comparison: ClusteringComparison;
+}
+
+const NORMALIZED_TABLES = ['cluster_assignments', 'clusters', 'cluster_labels', 'analysis_runs'];
+
+// Write one saved analysis into the normalized tables. Points carry their
+// video ID; runs clustered before they did are matched to videos by title.
+// Points without a video are counted and skipped.
+export async function saveNormalizedAnalysis(
+  db: Database,
+  runId: string,
+  data: SavedAnalysisData
+): Promise<{ assignments: number; unmatched: number }> {
+  const results = data.clusteringResults;
+  if (!results?.clusters) return { assignments: 0, unmatched: 0 };
+
+  const videoIds = new Map<string, string>();
+  (data.videos || []).forEach(video => {
+    if (!videoIds.has(video.title)) videoIds.set(video.title, video.id);
+  });
+
+  const points: ClusterResult[] = [...results.clusters.flat(), ...(results.noise || [])];
+  const assignments = points.flatMap(point => {
+    const videoId = point.videoId ?? videoIds.get(point.title);
+    return videoId === undefined ? [] : [{
+      run_id: runId,
+      video_id: videoId,
+      cluster_id: point.clusterId,
+      distance: point.distance,
+      probability: point.probability ?? null
+    }];
+  });
+
+  const summaries = new Map((data.clusterSummaries || []).map(summary => [summary.id, summary]));
+  const clusters = results.clusters.map((cluster, index) => {
+    const clusterId = cluster[0]?.clusterId ?? index;
+    const summary = summaries.get(clusterId);
+    return {
+      run_id: runId,
+      cluster_id: clusterId,
+      size: cluster.length,
+      top_words: summary?.topWords || [],
+      centroid: results.centroids?.[clusterId] || [],
+      silhouette: summary?.silhouette ?? null
+    };
+  });
+
+  const config = data.configuration?.clusteringConfig;
+  await db.insert('analysis_runs', [{
+    run_id: runId,
+    video_count: points.length,
+    cluster_count: results.clusters.length,
+    noise_count: results.noise?.length || 0,
+    embedding_model: String(data.embeddingModel || 'unknown'),
+    clustering_algorithm: String(data.clusteringAlgorithm || 'unknown'),
+    metric: data.manifest?.clustering.metric || config?.metric || 'euclidean',
+    seed: data.manifest?.seed ?? config?.seed ?? null,
+    input_hash: data.manifest?.inputHash || '',
+    silhouette: results.silhouetteScore ?? null
+  }]);
+  if (clusters.length > 0) await db.insert('clusters', clusters);
+  if (assignments.length > 0) await db.insert('cluster_assignments', assignments);
+
+  const labels = (data.clusterSummaries || []).flatMap(summary => summary.generatedLabel ? [{
+    run_id: runId,
+    cluster_id: summary.id,
+    title: summary.generatedLabel.title,
+    description: summary.generatedLabel.description,
+    model: summary.generatedLabel.model,
+    edited: !!summary.generatedLabel.edited
+  }] : []);
+  if (labels.length > 0) await db.insert('cluster_labels', labels);
+
+  return { assignments: assignments.length, unmatched: points.length - assignments.length };
+}
+
+export async function deleteNormalizedAnalysis(db: Database, runId: string): Promise<void> {
+  for (const table of NORMALIZED_TABLES) {
+    await db.command(
+      `ALTER TABLE ${db.table(table)} DELETE WHERE run_id = {runId:String}`,
+      { runId },
+      { mutations_sync: 1 }
+    );
+  }
+}
+
+// Latest title and description of every labeled cluster in a run
+export async function getClusterLabels(db: Database, runId: string): Promise<Map<number, GeneratedClusterLabel>> {
+  const rows = await db.query<{ cluster_id: number; title: string; description: string; model: string; edited: boolean }>(
+    `
+      SELECT cluster_id, title, description, model, edited
+      FROM ${db.table('cluster_labels')} FINAL
+      WHERE run_id = {runId:String}
+    `,
+    { runId }
+  );
+  return new Map(rows.map(({ cluster_id, ...label }) => [Number(cluster_id), { ...label, edited: Boolean(label.edited) }]));
+}
+
+// An analyst's override of a cluster's title and description; keeps the
+// generating model for reference
+export async function saveClusterLabel(
+  db: Database,
+  runId: string,
+  clusterId: number,
+  label: { title: string; description: string }
+): Promise<GeneratedClusterLabel> {
+  const previous = (await getClusterLabels(db, runId)).get(clusterId);
+  const edited = { ...label, model: previous?.model || '', edited: true };
+  await db.insert('cluster_labels', [{ run_id: runId, cluster_id: clusterId, ...edited }]);
+  return edited;
+}
+
+// Which cluster a video was in, newest run first
+export async function getVideoClusterHistory(db: Database, videoId: string, limit: number): Promise<VideoClusterHistoryEntry[]> {
+  return db.query<VideoClusterHistoryEntry>(
+    `
+      SELECT
+        a.run_id AS run_id,
+        r.created_at AS created_at,
+        r.embedding_model AS embedding_model,
+        r.clustering_algorithm AS clustering_algorithm,
+        r.cluster_count AS cluster_count,
+        a.cluster_id AS cluster_id,
+        a.distance AS distance,
+        a.probability AS probability,
+        c.top_words AS top_words,
+        c.size AS cluster_size
+      FROM ${db.table('cluster_assignments')} AS a
+      INNER JOIN ${db.table('analysis_runs')} AS r ON r.run_id = a.run_id
+      LEFT JOIN (
+        SELECT run_id, cluster_id, size, top_words
+        FROM ${db.table('clusters')}
+        WHERE run_id IN (SELECT run_id FROM ${db.table('cluster_assignments')} WHERE video_id = {videoId:String})
+      ) AS c ON c.run_id = a.run_id AND c.cluster_id = a.cluster_id
+      WHERE a.video_id = {videoId:String}
+      ORDER BY r.created_at DESC
+      LIMIT {limit:UInt32}
+    `,
+    { videoId, limit }
+  );
+}
+
+// A run's clusters with their members, closest to the centroid first. HDBSCAN
+// noise is returned separately.
+export async function getRunClusters(
+  db: Database,
+  runId: string,
+  includeCentroids: boolean
+): Promise<{ run: Record<string, any> | null; clusters: RunCluster[]; noise: RunClusterMember[] }> {
+  const runs = await db.query(
+    `SELECT * FROM ${db.table('analysis_runs')} WHERE run_id = {runId:String} LIMIT 1`,
+    { runId }
+  );
+  if (runs.length === 0) return { run: null, clusters: [], noise: [] };
+
+  const clusters = await db.query<Omit<RunCluster, 'members'>>(
+    `
+      SELECT cluster_id, size, top_words, silhouette${includeCentroids ? ', centroid' : ''}
+      FROM ${db.table('clusters')}
+      WHERE run_id = {runId:String}
+      ORDER BY cluster_id
+    `,
+    { runId }
+  );
+
+  const members = await db.query<RunClusterMember & { cluster_id: number }>(
+    `
+      SELECT a.video_id AS video_id, a.cluster_id AS cluster_id, a.distance AS distance, a.probability AS probability, v.title AS title
+      FROM ${db.table('cluster_assignments')} AS a
+      LEFT JOIN (
+        SELECT id, any(title) AS title
+        FROM ${db.table('videos')}
+        WHERE id IN (SELECT video_id FROM ${db.table('cluster_assignments')} WHERE run_id = {runId:String})
+        GROUP BY id
+      ) AS v ON v.id = a.video_id
+      WHERE a.run_id = {runId:String}
+      ORDER BY a.cluster_id, a.distance
+    `,
+    { runId }
+  );
+
+  const byCluster = new Map<number, RunClusterMember[]>();
+  members.forEach(({ cluster_id, ...member }) => {
+    if (!byCluster.has(cluster_id)) byCluster.set(cluster_id, []);
+    byCluster.get(cluster_id)!.push(member);
+  });
+
+  return {
+    run: runs[0],
+    clusters: clusters.map(cluster => ({ ...cluster, members: byCluster.get(cluster.cluster_id) || [] })),
+    noise: byCluster.get(-1) || []
+  };
+}
+
+async function loadRunLabels(db: Database, runId: string) {
+  const [runs, assignments, clusters] = await Promise.all([
+    db.query(`SELECT * FROM ${db.table('analysis_runs')} WHERE run_id = {runId:String} LIMIT 1`, { runId }),
+    db.query<{ video_id: string; cluster_id: number }>(
+      `SELECT video_id, cluster_id FROM ${db.table('cluster_assignments')} WHERE run_id = {runId:String}`,
+      { runId }
+    ),
+    db.query<{ cluster_id: number; top_words: string[] }>(
+      `SELECT cluster_id, top_words FROM ${db.table('clusters')} WHERE run_id = {runId:String}`,
+      { runId }
+    )
+  ]);
+
+  return {
+    run: runs[0] || null,
+    labels: new Map(assignments.map(row => [row.video_id, Number(row.cluster_id)])),
+    topWords: Object.fromEntries(clusters.map(row => [Number(row.cluster_id), row.top_words]))
+  };
+}
+
+// Two saved runs compared over the videos they share; null if either run has
+// no normalized rows
+export async function compareRuns(db: Database, runIdA: string, runIdB: string): Promise<RunComparison | null> {
+  const [a, b] = await Promise.all([loadRunLabels(db, runIdA), loadRunLabels(db, runIdB)]);
+  if (!a.run || !b.run) return null;
+
+  return {
+    runA: a.run,
+    runB: b.run,
+    topWordsA: a.topWords,
+    topWordsB: b.topWords,
+    comparison: compareClusterings(a.labels, b.labels)
+  };
+}
@@ -0,0 +1,139 @@
+// ClickHouse access layer shared by every API route
+// Values always travel as ClickHouse query parameters ({name:Type}); the only
+// things spliced into SQL text are identifiers that passed assertIdentifier.
+import { createClient } from '@clickhouse/client';
+
+export interface ClickHouseConfig {
+  host: string;
+  username: string;
+  password: string;
+  database?: string;
+}
+
+export type QueryParams = Record<string, unknown>;
+export type QuerySettings = Record<string, string | number | boolean>;
+
+export interface Database {
+  name: string;
+  table: (name: string) => string;
+  query: <T = any>(sql: string, params?: QueryParams) => Promise<T[]>;
+  command: (sql: string, params?: QueryParams, settings?: QuerySettings) => Promise<void>;
+  insert: <T extends object>(table: string, rows: T[], settings?: QuerySettings) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+export class QueryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryValidationError';
+  }
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+
+// Database, table and column names cannot be bound as parameters in every
+// position we need them, so they are checked against a strict pattern instead
+export function assertIdentifier(value: unknown, label: string = 'identifier'): string {
+  if (typeof value !== 'string' || !IDENTIFIER_PATTERN.test(value)) {
+    throw new QueryValidationError(`Invalid ${label}: ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+// LIMIT / OFFSET style values: non-negative integers, optionally capped
+export function assertUInt(value: unknown, label: string, max: number = Number.MAX_SAFE_INTEGER): number {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed < 0 || parsed > max) {
+    throw new QueryValidationError(`Invalid ${label}: ${JSON.stringify(value)}`);
+  }
+  return parsed;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Calendar dates (YYYY-MM-DD) for date range filters
+export function assertDate(value: unknown, label: string): string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+    throw new QueryValidationError(`Invalid ${label}: ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+// Free-form string keys such as session IDs; bound as parameters, so only
+// the type and length are checked
+export function assertNonEmptyString(value: unknown, label: string, maxLength: number = 256): string {
+  if (typeof value !== 'string' || value.trim() === '' || value.length > maxLength) {
+    throw new QueryValidationError(`Invalid ${label}: ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+// Pick a value from a fixed set, falling back to the default for anything else
+export function pickAllowed<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+// Each dimension has its own dedicated embedding column on the videos table
+export const EMBEDDING_DIMENSIONS = [768, 1536, 3072] as const;
+export type EmbeddingDimension = typeof EMBEDDING_DIMENSIONS[number];
+
+export function embeddingColumnFor(dimensions: unknown): string {
+  const parsed = Number(dimensions);
+  if (!EMBEDDING_DIMENSIONS.includes(parsed as EmbeddingDimension)) {
+    throw new QueryValidationError(`Unsupported embedding dimensions: ${JSON.stringify(dimensions)}`);
+  }
+  return `embedding_${parsed}d`;
+}
+
+// Open a client bound to one (validated) database
+export function connectDatabase(config: ClickHouseConfig): Database {
+  const name = assertIdentifier(config.database || 'default', 'database name');
+
+  const client = createClient({
+    url: config.host,
+    username: config.username,
+    password: config.password,
+    database: name
+  });
+
+  const table = (tableName: string) => `${name}.${assertIdentifier(tableName, 'table name')}`;
+
+  return {
+    name,
+    table,
+
+    async query<T = any>(sql: string, params: QueryParams = {}): Promise<T[]> {
+      const result = await client.query({
+        query: sql,
+        query_params: params,
+        format: 'JSONEachRow'
+      });
+      return await result.json<T>();
+    },
+
+    async command(sql: string, params: QueryParams = {}, settings: QuerySettings = {}): Promise<void> {
+      await client.command({
+        query: sql,
+        query_params: params,
+        clickhouse_settings: settings as any
+      });
+    },
+
+    async insert<T extends object>(tableName: string, rows: T[], settings: QuerySettings = {}): Promise<void> {
+      if (rows.length === 0) return;
+      await client.insert({
+        table: table(tableName),
+        values: rows,
+        format: 'JSONEachRow',
+        clickhouse_settings: {
+          date_time_input_format: 'best_effort',
+          ...settings
+        } as any
+      });
+    },
+
+    async close(): Promise<void> {
+      await client.close();
+    }
+  };
+}
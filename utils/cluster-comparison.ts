@@ -0,0 +1,177 @@
+// Comparing two clusterings of the same videos
+// Adjusted Rand Index and normalized mutual information (arithmetic-mean
+// normalization) over the videos both runs contain, plus a contingency matrix
+// and a one-to-one alignment of clusters that maximizes shared videos
+// (Hungarian algorithm). Noise (-1) counts as a cluster for ARI/NMI but is
+// never aligned.
+import { NOISE_LABEL } from './hdbscan';
+
+export interface ClusterAlignment {
+  clusterA: number;
+  clusterB: number;
+  overlap: number; // videos in both clusters
+  jaccard: number; // overlap / union
+}
+
+export interface ClusteringComparison {
+  sharedVideos: number;
+  onlyInA: number;
+  onlyInB: number;
+  adjustedRandIndex: number;
+  normalizedMutualInformation: number;
+  clustersA: number[]; // row labels of the contingency matrix
+  clustersB: number[]; // column labels
+  contingency: number[][]; // contingency[i][j] = videos in clustersA[i] and clustersB[j]
+  alignment: ClusterAlignment[];
+}
+
+const choose2 = (n: number) => n * (n - 1) / 2;
+
+function adjustedRandIndex(contingency: number[][], rowSums: number[], columnSums: number[], n: number): number {
+  const index = contingency.reduce((sum, row) => sum + row.reduce((rowSum, count) => rowSum + choose2(count), 0), 0);
+  const sumRows = rowSums.reduce((sum, count) => sum + choose2(count), 0);
+  const sumColumns = columnSums.reduce((sum, count) => sum + choose2(count), 0);
+  const expected = n > 1 ? sumRows * sumColumns / choose2(n) : 0;
+  const max = (sumRows + sumColumns) / 2;
+
+  // Both clusterings put everything in one cluster (or every video alone)
+  if (max === expected) return 1;
+  return (index - expected) / (max - expected);
+}
+
+function entropy(counts: number[], n: number): number {
+  return counts.reduce((sum, count) => count > 0 ? sum - (count / n) * Math.log(count / n) : sum, 0);
+}
+
+function normalizedMutualInformation(contingency: number[][], rowSums: number[], columnSums: number[], n: number): number {
+  let mutualInformation = 0;
+  contingency.forEach((row, i) => {
+    row.forEach((count, j) => {
+      if (count > 0) mutualInformation += (count / n) * Math.log((n * count) / (rowSums[i] * columnSums[j]));
+    });
+  });
+
+  const meanEntropy = (entropy(rowSums, n) + entropy(columnSums, n)) / 2;
+  if (meanEntropy === 0) return 1;
+  return Math.max(0, Math.min(1, mutualInformation / meanEntropy));
+}
+
+// Minimum-cost assignment for a square cost matrix (Kuhn-Munkres with
+// potentials, O(n^3)). Returns the column assigned to each row.
+export function hungarianAssignment(cost: number[][]): number[] {
+  const n = cost.length;
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const match = new Array(n + 1).fill(0); // match[column] = row, 1-based
+  const way = new Array(n + 1).fill(0);
+
+  for (let row = 1; row <= n; row++) {
+    match[0] = row;
+    let column0 = 0;
+    const minSlack = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+
+    do {
+      used[column0] = true;
+      const row0 = match[column0];
+      let delta = Infinity;
+      let column1 = 0;
+
+      for (let column = 1; column <= n; column++) {
+        if (used[column]) continue;
+        const slack = cost[row0 - 1][column - 1] - u[row0] - v[column];
+        if (slack < minSlack[column]) {
+          minSlack[column] = slack;
+          way[column] = column0;
+        }
+        if (minSlack[column] < delta) {
+          delta = minSlack[column];
+          column1 = column;
+        }
+      }
+
+      for (let column = 0; column <= n; column++) {
+        if (used[column]) {
+          u[match[column]] += delta;
+          v[column] -= delta;
+        } else {
+          minSlack[column] -= delta;
+        }
+      }
+      column0 = column1;
+    } while (match[column0] !== 0);
+
+    do {
+      const column1 = way[column0];
+      match[column0] = match[column1];
+      column0 = column1;
+    } while (column0 !== 0);
+  }
+
+  const assignment = new Array(n).fill(-1);
+  for (let column = 1; column <= n; column++) {
+    if (match[column] > 0) assignment[match[column] - 1] = column - 1;
+  }
+  return assignment;
+}
+
+// Align clusters one-to-one by maximum overlap; the matrix is padded to a
+// square so runs with different K still align every cluster they can
+function alignClusters(contingency: number[][], clustersA: number[], clustersB: number[], rowSums: number[], columnSums: number[]): ClusterAlignment[] {
+  const rows = clustersA.map((_, i) => i).filter(i => clustersA[i] !== NOISE_LABEL);
+  const columns = clustersB.map((_, j) => j).filter(j => clustersB[j] !== NOISE_LABEL);
+  const size = Math.max(rows.length, columns.length);
+  if (size === 0) return [];
+
+  const maxOverlap = Math.max(0, ...rows.flatMap(i => columns.map(j => contingency[i][j])));
+  const cost = Array.from({ length: size }, (_, r) =>
+    Array.from({ length: size }, (_, c) =>
+      r < rows.length && c < columns.length ? maxOverlap - contingency[rows[r]][columns[c]] : maxOverlap
+    )
+  );
+
+  return hungarianAssignment(cost).flatMap((c, r) => {
+    if (r >= rows.length || c >= columns.length) return [];
+    const i = rows[r];
+    const j = columns[c];
+    const overlap = contingency[i][j];
+    if (overlap === 0) return [];
+    return [{
+      clusterA: clustersA[i],
+      clusterB: clustersB[j],
+      overlap,
+      jaccard: overlap / (rowSums[i] + columnSums[j] - overlap)
+    }];
+  }).sort((a, b) => a.clusterA - b.clusterA);
+}
+
+// Compare two runs given each run's cluster per video ID
+export function compareClusterings(labelsA: Map<string, number>, labelsB: Map<string, number>): ClusteringComparison {
+  const shared = Array.from(labelsA.keys()).filter(id => labelsB.has(id));
+
+  const clustersA = Array.from(new Set(shared.map(id => labelsA.get(id)!))).sort((a, b) => a - b);
+  const clustersB = Array.from(new Set(shared.map(id => labelsB.get(id)!))).sort((a, b) => a - b);
+  const rowOf = new Map(clustersA.map((label, i) => [label, i]));
+  const columnOf = new Map(clustersB.map((label, j) => [label, j]));
+
+  const contingency = clustersA.map(() => new Array(clustersB.length).fill(0));
+  shared.forEach(id => {
+    contingency[rowOf.get(labelsA.get(id)!)!][columnOf.get(labelsB.get(id)!)!]++;
+  });
+
+  const rowSums = contingency.map(row => row.reduce((sum, count) => sum + count, 0));
+  const columnSums = clustersB.map((_, j) => contingency.reduce((sum, row) => sum + row[j], 0));
+  const n = shared.length;
+
+  return {
+    sharedVideos: n,
+    onlyInA: labelsA.size - n,
+    onlyInB: labelsB.size - n,
+    adjustedRandIndex: n > 0 ? adjustedRandIndex(contingency, rowSums, columnSums, n) : 0,
+    normalizedMutualInformation: n > 0 ? normalizedMutualInformation(contingency, rowSums, columnSums, n) : 0,
+    clustersA,
+    clustersB,
+    contingency,
+    alignment: alignClusters(contingency, clustersA, clustersB, rowSums, columnSums)
+  };
+}
@@ -0,0 +1,220 @@
+// Generated cluster titles and descriptions
+// A ClusterLabeler turns a cluster's key phrases and representative titles
+// into a one-line title and a two-sentence description. 'mock' builds them
+// from the key phrases without network access (tests, offline use);
+// 'chat-completion' asks the OpenAI-compatible endpoint configured on the
+// credential profile. Answers are cached in-process by model and prompt, so
+// rerunning an analysis does not call the endpoint again; saved runs keep
+// their labels in the cluster_labels table (utils/analysis-store.ts).
+import { createHash } from 'crypto';
+import type { ClusteringResults, ClusterSummary } from './clustering';
+import { ChatCompletionSettings, getApiKey, getProfile } from './credential-profiles';
+
+export interface ClusterLabelInput {
+  clusterId: number;
+  size: number;
+  keywords: string[];
+  representatives: string[]; // titles closest to the centroid
+}
+
+export interface GeneratedClusterLabel {
+  title: string;
+  description: string;
+  model: string;
+  edited?: boolean; // overridden by an analyst
+}
+
+export interface ClusterLabeler {
+  id: string;
+  model: string;
+  label: (input: ClusterLabelInput, signal?: AbortSignal) => Promise<{ title: string; description: string }>;
+}
+
+export class ClusterLabelerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClusterLabelerError';
+  }
+}
+
+const REPRESENTATIVE_COUNT = 8;
+const TITLE_MAX_LENGTH = 120;
+const DESCRIPTION_MAX_LENGTH = 600;
+const REQUEST_TIMEOUT_MS = 30000;
+const MAX_CACHE_ENTRIES = 2000;
+
+const cache = new Map<string, { title: string; description: string }>();
+
+const SYSTEM_PROMPT = [
+  'You name clusters of YouTube video titles for media analysts.',
+  'Reply with JSON only: {"title": "...", "description": "..."}.',
+  'The title is at most eight words. The description is exactly two sentences about what the videos have in common.'
+].join(' ');
+
+function userPrompt(input: ClusterLabelInput): string {
+  return [
+    `Cluster of ${input.size} videos.`,
+    `Key phrases: ${input.keywords.join(', ') || 'none'}`,
+    'Representative titles:',
+    ...input.representatives.map(title => `- ${title}`)
+  ].join('\n');
+}
+
+// Models wrap JSON in prose or code fences often enough that the outermost
+// object is extracted rather than parsing the whole reply
+function parseLabel(content: string): { title: string; description: string } {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  let parsed: any;
+  try {
+    parsed = start >= 0 && end > start ? JSON.parse(content.slice(start, end + 1)) : null;
+  } catch {
+    parsed = null;
+  }
+  if (!parsed || typeof parsed.title !== 'string' || typeof parsed.description !== 'string' || !parsed.title.trim()) {
+    throw new ClusterLabelerError(`Chat completion did not return a title and description: ${content.slice(0, 200)}`);
+  }
+  return {
+    title: parsed.title.trim().slice(0, TITLE_MAX_LENGTH),
+    description: parsed.description.trim().slice(0, DESCRIPTION_MAX_LENGTH)
+  };
+}
+
+export const mockClusterLabeler: ClusterLabeler = {
+  id: 'mock',
+  model: 'mock',
+  async label(input) {
+    const [first, second, third] = input.keywords;
+    const title = first
+      ? [first, second].filter(Boolean).map(phrase => phrase.charAt(0).toUpperCase() + phrase.slice(1)).join(' & ')
+      : `Cluster ${input.clusterId + 1}`;
+    const topics = [first, second, third].filter(Boolean);
+    const examples = input.representatives.slice(0, 2).map(example => `"${example}"`);
+    return {
+      title,
+      description: [
+        `${input.size} videos${topics.length > 0 ? ` about ${topics.join(', ')}` : ''}.`,
+        examples.length > 0 ? `Typical titles include ${examples.join(' and ')}.` : 'No representative titles were available.'
+      ].join(' ')
+    };
+  }
+};
+
+export function chatCompletionLabeler(settings: ChatCompletionSettings, apiKey?: string): ClusterLabeler {
+  const url = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'chat-completion',
+    model: settings.model,
+    async label(input, signal) {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      const abort = () => controller.abort();
+      signal?.addEventListener('abort', abort);
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+          },
+          body: JSON.stringify({
+            model: settings.model,
+            temperature: 0,
+            messages: [
+              { role: 'system', content: SYSTEM_PROMPT },
+              { role: 'user', content: userPrompt(input) }
+            ]
+          }),
+          signal: controller.signal
+        });
+
+        if (!response.ok) {
+          const body = await response.text().catch(() => '');
+          throw new ClusterLabelerError(
+            response.status === 401 || response.status === 403
+              ? 'Chat completion authentication failed. Check the profile\'s chatCompletion key'
+              : `Chat completion error ${response.status}: ${body.slice(0, 200)}`
+          );
+        }
+
+        const result = await response.json();
+        return parseLabel(String(result.choices?.[0]?.message?.content || ''));
+      } finally {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', abort);
+      }
+    }
+  };
+}
+
+// null when labeling is off ('none' or unset)
+export function resolveClusterLabeler(id: unknown, profileId?: unknown): ClusterLabeler | null {
+  if (id === undefined || id === null || id === '' || id === 'none') return null;
+  if (id === 'mock') return mockClusterLabeler;
+
+  if (id === 'chat-completion') {
+    const profile = getProfile(profileId);
+    if (!profile.chatCompletion?.baseUrl || !profile.chatCompletion.model) {
+      throw new ClusterLabelerError(`Profile "${profile.id}" has no chat completion endpoint configured`);
+    }
+    return chatCompletionLabeler(profile.chatCompletion, getApiKey(profileId, 'chatCompletion'));
+  }
+
+  throw new ClusterLabelerError(`Unknown cluster labeler: ${JSON.stringify(id)}`);
+}
+
+async function cachedLabel(labeler: ClusterLabeler, input: ClusterLabelInput, signal?: AbortSignal) {
+  const key = createHash('sha256').update(`${labeler.id}\u0000${labeler.model}\u0000${userPrompt(input)}`).digest('hex');
+  const hit = cache.get(key);
+  if (hit) return hit;
+
+  const label = await labeler.label(input, signal);
+  if (cache.size >= MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value!);
+  cache.set(key, label);
+  return label;
+}
+
+// Label every (non-noise) cluster, one request at a time. The first failure
+// stops labeling and is reported through onProgress; the clusters keep their
+// keyword names, so a broken endpoint never costs the analysis itself.
+export async function labelClusterSummaries(
+  labeler: ClusterLabeler,
+  summaries: ClusterSummary[],
+  results: ClusteringResults,
+  options: { signal?: AbortSignal; onProgress?: (done: number, total: number, message: string) => void } = {}
+): Promise<ClusterSummary[]> {
+  const { signal, onProgress } = options;
+  const clusters = summaries.filter(summary => !summary.isNoise);
+  const labels = new Map<number, GeneratedClusterLabel>();
+
+  for (let i = 0; i < clusters.length; i++) {
+    const summary = clusters[i];
+    const representatives = results.clusters[summary.id]
+      .slice()
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, REPRESENTATIVE_COUNT)
+      .map(point => point.title);
+
+    onProgress?.(i, clusters.length, `Naming cluster ${i + 1}/${clusters.length} with ${labeler.model}...`);
+    try {
+      const label = await cachedLabel(labeler, {
+        clusterId: summary.id,
+        size: summary.size,
+        keywords: summary.topWords,
+        representatives
+      }, signal);
+      labels.set(summary.id, { ...label, model: labeler.model });
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      onProgress?.(i, clusters.length, `Cluster naming stopped: ${error.message}`);
+      break;
+    }
+  }
+
+  return summaries.map(summary => labels.has(summary.id) && !summary.isNoise
+    ? { ...summary, generatedLabel: labels.get(summary.id) }
+    : summary
+  );
+}
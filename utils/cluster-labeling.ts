@@ -0,0 +1,197 @@
+// Cluster names from class-based TF-IDF (c-TF-IDF, as in BERTopic)
+// All titles of a cluster form one document. A term's weight in a cluster is
+// its share of that cluster's terms times log(1 + A / f), where f is how often
+// the term occurs across all clusters and A the average number of terms per
+// cluster, so words every cluster uses sink and words specific to one rise.
+// Terms are 1-3-word phrases that do not start or end with a stopword of the
+// title's detected language, counted once per title; inflections of the same
+// phrase are merged by stem. Kept client-safe like cluster-summaries.ts.
+import { detectTitleLanguage } from './language-detector';
+import { ENGLISH_STOPWORDS, STOPWORDS_BY_LANGUAGE } from './stopwords';
+
+export interface ClusterKeyword {
+  phrase: string;
+  score: number; // c-TF-IDF weight
+  titles: number; // titles in the cluster containing the phrase
+}
+
+export interface ClusterLabel {
+  name: string; // empty when the cluster has no usable terms
+  keywords: ClusterKeyword[];
+}
+
+const MAX_NGRAM = 3;
+const NAME_MAX_LENGTH = 40;
+// Clusters at least this large only take terms found in two or more titles
+const MIN_SUPPORT_SIZE = 4;
+// A longer phrase replaces an already chosen shorter one it contains when it
+// occurs in at least this share of the shorter one's titles
+const PHRASE_SUPPORT_RATIO = 0.6;
+
+// Words of letters and digits, keeping inner apostrophes and hyphens
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+// Phrases never span punctuation or a spaced dash ("Song - Artist")
+const SEGMENT_BREAK = /[|/\\:;!?()[\]{}"«»“”•–—,.#]+|\s-\s/u;
+
+interface Token {
+  text: string; // as written in the title
+  stem: string;
+  stop: boolean; // stopword or number: allowed inside a phrase, not at its ends
+}
+
+interface Term {
+  key: string; // stems joined by spaces
+  stems: string[]; // content-word stems, for overlap checks
+  text: string;
+}
+
+// Light suffix stripping; enough to merge plurals and common inflections in
+// titles, not a full stemmer
+function stemEnglish(word: string): string {
+  let stem = word;
+  if (stem.length > 4 && stem.endsWith('ies')) stem = stem.slice(0, -3) + 'i';
+  else if (stem.length > 4 && stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) stem = stem.slice(0, -1);
+  if (stem.length > 5 && stem.endsWith('ing')) stem = stem.slice(0, -3);
+  else if (stem.length > 4 && stem.endsWith('ed')) stem = stem.slice(0, -2);
+  if (stem.length > 3 && stem.endsWith('y')) stem = stem.slice(0, -1) + 'i';
+  if (stem.length > 3 && stem.endsWith('e')) stem = stem.slice(0, -1);
+  return stem;
+}
+
+const INFLECTION_SUFFIXES: Record<string, string[]> = {
+  ru: ['ами', 'ями', 'ого', 'его', 'ому', 'ему', 'ыми', 'ими', 'ые', 'ие', 'ый', 'ий', 'ой', 'ая', 'яя', 'ое', 'ее',
+    'ов', 'ев', 'ах', 'ях', 'ам', 'ям', 'ом', 'ем', 'ы', 'и', 'а', 'я', 'о', 'е', 'у', 'ю', 'ь'],
+  es: ['es', 's'],
+  fr: ['es', 's', 'x'],
+  pt: ['es', 's'],
+  de: ['en', 'er', 'e', 'n', 's']
+};
+INFLECTION_SUFFIXES.uk = INFLECTION_SUFFIXES.ru;
+
+function stemWord(word: string, language: string): string {
+  if (language === 'en') return stemEnglish(word);
+  const suffix = INFLECTION_SUFFIXES[language]?.find(ending => word.endsWith(ending) && word.length - ending.length >= 3);
+  return suffix ? word.slice(0, -suffix.length) : word;
+}
+
+function tokenizeTitle(title: string): Token[][] {
+  const language = detectTitleLanguage(title).language;
+  const stopwords = STOPWORDS_BY_LANGUAGE[language] || ENGLISH_STOPWORDS;
+
+  return title.split(SEGMENT_BREAK).map(segment =>
+    (segment.match(TOKEN_PATTERN) || []).map(text => {
+      const lower = text.toLowerCase();
+      // English stopwords always apply; titles mix in English whatever their language
+      const stop = stopwords.has(lower) || ENGLISH_STOPWORDS.has(lower) || /^\p{N}+$/u.test(lower) || lower.length < 2;
+      return { text, stem: stop ? lower : stemWord(lower, language), stop };
+    })
+  );
+}
+
+// Distinct 1-3-word phrases of a title
+function titleTerms(title: string): Term[] {
+  const terms = new Map<string, Term>();
+
+  tokenizeTitle(title).forEach(tokens => {
+    tokens.forEach((first, start) => {
+      if (first.stop) return;
+      for (let length = 1; length <= MAX_NGRAM && start + length <= tokens.length; length++) {
+        const phrase = tokens.slice(start, start + length);
+        if (phrase[phrase.length - 1].stop) continue;
+        const key = phrase.map(token => token.stem).join(' ');
+        if (!terms.has(key)) {
+          terms.set(key, {
+            key,
+            stems: phrase.filter(token => !token.stop).map(token => token.stem),
+            text: phrase.map(token => token.text).join(' ')
+          });
+        }
+      }
+    });
+  });
+
+  return Array.from(terms.values());
+}
+
+const covers = (outer: string[], inner: string[]) => inner.every(stem => outer.includes(stem));
+
+// Greedily take the best-scoring phrases, skipping ones whose words are already
+// covered and letting a well-supported longer phrase absorb shorter ones
+function selectKeywords(ranked: (ClusterKeyword & { stems: string[] })[], topN: number): ClusterKeyword[] {
+  const selected: (ClusterKeyword & { stems: string[] })[] = [];
+
+  for (const candidate of ranked) {
+    if (selected.length >= topN) break;
+    if (selected.some(chosen => covers(chosen.stems, candidate.stems))) continue;
+
+    const absorbed = selected.filter(chosen => covers(candidate.stems, chosen.stems));
+    if (absorbed.length === 0) {
+      selected.push(candidate);
+    } else if (absorbed.every(chosen => candidate.titles >= chosen.titles * PHRASE_SUPPORT_RATIO)) {
+      selected.splice(selected.indexOf(absorbed[0]), 1, candidate);
+      absorbed.slice(1).forEach(chosen => selected.splice(selected.indexOf(chosen), 1));
+    }
+  }
+
+  return selected.map(({ stems, ...keyword }) => keyword);
+}
+
+// Top phrase, plus the runner-up when the top one is a single word and both fit
+function clusterName(keywords: ClusterKeyword[]): string {
+  if (keywords.length === 0) return '';
+  const [first, second] = keywords;
+  const name = second && !first.phrase.includes(' ') && first.phrase.length + second.phrase.length + 3 <= NAME_MAX_LENGTH
+    ? `${first.phrase} · ${second.phrase}`
+    : first.phrase;
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// One label per cluster, scored against all clusters passed in (include the
+// noise bucket so its words count towards the corpus frequencies)
+export function labelClusters(clusterTitles: string[][], topN: number = 5): ClusterLabel[] {
+  // Most common spelling of each phrase across the corpus, for display
+  const spellings = new Map<string, Map<string, number>>();
+  const stemsByKey = new Map<string, string[]>();
+
+  const counts = clusterTitles.map(titles => {
+    const titleCounts = new Map<string, number>();
+    titles.forEach(title => {
+      titleTerms(title).forEach(term => {
+        titleCounts.set(term.key, (titleCounts.get(term.key) || 0) + 1);
+        stemsByKey.set(term.key, term.stems);
+        if (!spellings.has(term.key)) spellings.set(term.key, new Map());
+        const forms = spellings.get(term.key)!;
+        forms.set(term.text, (forms.get(term.text) || 0) + 1);
+      });
+    });
+    return titleCounts;
+  });
+
+  const totals = counts.map(termCounts => Array.from(termCounts.values()).reduce((sum, count) => sum + count, 0));
+  const averageTotal = totals.reduce((sum, total) => sum + total, 0) / (totals.length || 1);
+  const corpusCounts = new Map<string, number>();
+  counts.forEach(termCounts => termCounts.forEach((count, key) => {
+    corpusCounts.set(key, (corpusCounts.get(key) || 0) + count);
+  }));
+
+  const spellingOf = (key: string) =>
+    Array.from(spellings.get(key)!.entries()).reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+
+  return counts.map((termCounts, clusterIndex) => {
+    const minSupport = clusterTitles[clusterIndex].length >= MIN_SUPPORT_SIZE ? 2 : 1;
+    const candidates = Array.from(termCounts.entries());
+    const supported = candidates.filter(([, count]) => count >= minSupport);
+
+    const ranked = (supported.length > 0 ? supported : candidates)
+      .map(([key, count]) => ({
+        phrase: spellingOf(key),
+        score: (count / totals[clusterIndex]) * Math.log(1 + averageTotal / corpusCounts.get(key)!),
+        titles: count,
+        stems: stemsByKey.get(key)!
+      }))
+      .sort((a, b) => b.score - a.score || b.titles - a.titles || a.phrase.localeCompare(b.phrase));
+
+    const keywords = selectKeywords(ranked, topN);
+    return { name: clusterName(keywords), keywords };
+  });
+}
@@ -0,0 +1,198 @@
+// Cluster results and summaries built from per-point labels
+// Kept free of server-only dependencies so the browser can re-derive them,
+// e.g. when the dendrogram is cut at a different height.
+import type { ClusterResult, ClusteringResults, ClusterSummary, VideoRecord } from './clustering';
+import { DistanceMetric, getDistance } from './distance';
+import { NOISE_LABEL } from './hdbscan';
+import { computeSilhouette } from './silhouette';
+import { createRandom } from './random';
+import { ClusterLabel, labelClusters } from './cluster-labeling';
+import {
+  DEFAULT_REPRESENTATIVE_COUNT,
+  RepresentativeOptions,
+  findMedoid,
+  selectRepresentatives,
+  toRepresentative
+} from './representatives';
+
+// Group points by label (NOISE_LABEL goes to the noise bucket). Unless the
+// algorithm supplies its own, centroids are member means, so distances are
+// comparable across algorithms. Distances are in the chosen metric; inertia is
+// the sum of squared Euclidean distances, or of cosine distances (the spherical
+// K-means objective) for the cosine metric. Silhouettes are attached to the
+// sampled points, the clusters and the results.
+export function clusteringResultsFromLabels(
+  vectors: number[][],
+  titles: string[],
+  labels: number[],
+  options: { metric?: DistanceMetric; probabilities?: number[]; centroids?: number[][]; seed?: number } = {}
+): ClusteringResults {
+  const metric = options.metric || 'euclidean';
+  const distanceTo = getDistance(metric);
+  const clusterCount = options.centroids?.length ?? labels.reduce((max, label) => Math.max(max, label + 1), 0);
+  const clusterSizes = new Array(clusterCount).fill(0);
+  labels.forEach(label => {
+    if (label !== NOISE_LABEL) clusterSizes[label]++;
+  });
+
+  const centroids = options.centroids || meanCentroids(vectors, labels, clusterSizes);
+
+  const clusters: ClusterResult[][] = Array.from({ length: clusterCount }, () => []);
+  const noise: ClusterResult[] = [];
+  const slots = new Int32Array(labels.length); // position of each point within its cluster
+  let totalInertia = 0;
+
+  labels.forEach((label, index) => {
+    const probability = options.probabilities?.[index];
+
+    if (label === NOISE_LABEL) {
+      noise.push({ clusterId: NOISE_LABEL, index, title: titles[index], vector: vectors[index], distance: 0, probability });
+      return;
+    }
+
+    const distance = distanceTo(vectors[index], centroids[label]);
+    totalInertia += metric === 'cosine' ? distance : distance * distance;
+
+    slots[index] = clusters[label].length;
+    clusters[label].push({
+      clusterId: label,
+      index,
+      title: titles[index],
+      vector: vectors[index],
+      distance,
+      probability
+    });
+  });
+
+  const { points, ...silhouette } = computeSilhouette(vectors, labels, { metric, random: createRandom(options.seed) });
+  points.forEach(({ index, score }) => {
+    clusters[labels[index]][slots[index]].silhouette = score;
+  });
+
+  return {
+    clusters,
+    ...(noise.length > 0 ? { noise } : {}),
+    centroids,
+    silhouetteScore: silhouette.score,
+    silhouette,
+    inertia: totalInertia,
+    iterations: 0,
+    convergenceTime: 0,
+    statistics: {
+      clusterSizes,
+      avgCoverage: 100,
+      totalVideos: titles.length,
+      processingTime: 0
+    }
+  };
+}
+
+// Copy of the results with every point (noise included) carrying the ID and
+// metadata of records[point.index], so later joins are by ID and duplicate
+// titles stay distinct. Points without an index or a record with an ID
+// (titles-only input) are left as they are.
+export function attachVideoRecords(results: ClusteringResults, records: VideoRecord[]): ClusteringResults {
+  const attach = (point: ClusterResult): ClusterResult => {
+    const record = point.index !== undefined ? records[point.index] : undefined;
+    if (!record?.id) return point;
+    const { id, title, ...metadata } = record;
+    return { ...point, videoId: id, ...(Object.keys(metadata).length > 0 ? { metadata } : {}) };
+  };
+
+  return {
+    ...results,
+    clusters: results.clusters.map(cluster => cluster.map(attach)),
+    ...(results.noise ? { noise: results.noise.map(attach) } : {})
+  };
+}
+
+function meanCentroids(vectors: number[][], labels: number[], clusterSizes: number[]): number[][] {
+  const dimensions = vectors[0]?.length || 0;
+  const sums = clusterSizes.map(() => new Array(dimensions).fill(0));
+
+  labels.forEach((label, index) => {
+    if (label === NOISE_LABEL) return;
+    for (let d = 0; d < dimensions; d++) {
+      sums[label][d] += vectors[index][d];
+    }
+  });
+
+  return sums.map((sum, label) => sum.map(value => value / (clusterSizes[label] || 1)));
+}
+
+// Cluster summaries: key-phrase labels, MMR representatives and the medoid,
+// silhouette and stability. Point arrays are never reordered.
+export function generateClusterSummaries(
+  clusteringResults: ClusteringResults,
+  options: { metric?: DistanceMetric; representatives?: number } = {}
+): ClusterSummary[] {
+  const representativeOptions = { count: options.representatives ?? DEFAULT_REPRESENTATIVE_COUNT, metric: options.metric };
+
+  // Labels are scored against every cluster, noise included
+  const noise = clusteringResults.noise || [];
+  const labels = labelClusters(
+    [...clusteringResults.clusters, noise].map(points => points.map(item => item.title)),
+    KEYWORD_COUNT
+  );
+
+  return clusteringResults.clusters.map((cluster, clusterId): ClusterSummary => {
+    // A K-means centroid can end up with no members
+    const avgDistance = cluster.length > 0 ? cluster.reduce((sum, item) => sum + item.distance, 0) / cluster.length : 0;
+    const centroid = clusteringResults.centroids[clusterId];
+    const representatives = selectRepresentatives(cluster, centroid, representativeOptions)
+      .map(position => toRepresentative(cluster[position]));
+    const medoid = findMedoid(cluster, centroid, options.metric);
+
+    const silhouette = clusteringResults.silhouette?.clusters.find(c => c.clusterId === clusterId)?.score;
+    const stability = clusteringResults.stability?.clusters[clusterId]?.jaccard;
+
+    return {
+      id: clusterId,
+      size: cluster.length,
+      ...labelFields(labels[clusterId]),
+      avgDistance,
+      examples: representatives.map(representative => representative.title),
+      representatives,
+      ...(medoid >= 0 ? { medoid: toRepresentative(cluster[medoid]) } : {}),
+      ...(silhouette !== undefined ? { silhouette } : {}),
+      ...(stability !== undefined ? { stability } : {})
+    };
+  }).concat(noise.length > 0
+    ? [summarizeNoise(noise, labels[labels.length - 1], representativeOptions)]
+    : []
+  );
+}
+
+const KEYWORD_COUNT = 5;
+
+function labelFields(label: ClusterLabel): Pick<ClusterSummary, 'topWords' | 'name' | 'keywords'> {
+  return {
+    topWords: label.keywords.map(keyword => keyword.phrase),
+    ...(label.name ? { name: label.name } : {}),
+    keywords: label.keywords
+  };
+}
+
+// Noise points share no centroid, so the bucket gets no distance or medoid and
+// its examples are picked around the mean of the noise; it is not a topic, so
+// it gets no name
+function summarizeNoise(
+  noise: ClusterResult[],
+  label: ClusterLabel,
+  representativeOptions: RepresentativeOptions
+): ClusterSummary {
+  const [mean] = meanCentroids(noise.map(point => point.vector), noise.map(() => 0), [noise.length]);
+  const representatives = selectRepresentatives(noise, mean, representativeOptions)
+    .map(position => toRepresentative(noise[position]));
+
+  return {
+    id: NOISE_LABEL,
+    size: noise.length,
+    topWords: label.keywords.map(keyword => keyword.phrase),
+    keywords: label.keywords,
+    avgDistance: 0,
+    examples: representatives.map(representative => representative.title),
+    representatives,
+    isNoise: true
+  };
+}
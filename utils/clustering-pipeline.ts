@@ -0,0 +1,459 @@
+// The clustering pipeline shared by /api/clustering and /api/clustering-stream
+// videos ({ id, title, ...metadata }) -> English filter -> embeddings
+// (pre-existing or from a provider, via the embedding cache) -> optional K
+// search -> clustering -> optional stability resampling -> summaries ->
+// optional generated cluster titles.
+// The CPU-heavy steps run in the worker pool; progress is reported through a
+// callback so the streaming route can forward it and the JSON route can ignore it.
+// Every clustered point carries its video's ID and metadata, so nothing
+// downstream has to match videos by title.
+import { ClusteringConfig, ClusteringResults, ClusterSummary, DEFAULT_MIN_CLUSTER_SIZE, VideoRecord } from './clustering';
+import { attachVideoRecords, generateClusterSummaries } from './cluster-summaries';
+import { labelClusterSummaries, resolveClusterLabeler } from './cluster-labelers';
+import { ClusteringCancelledError, runClusteringTask } from './clustering-pool';
+import { EmbeddingCacheStats, openEmbeddingCache } from './embedding-cache';
+import { EmbeddingProvider, embedTexts, resolveEmbeddingProvider } from './embedding-providers';
+import { getApiKey } from './credential-profiles';
+import { KAnalysisResult } from './k-optimization';
+import { detectLanguage } from './language-detection';
+import { NOISE_LABEL } from './hdbscan';
+import type { StabilityResult } from './stability';
+import { DEFAULT_SEED } from './random';
+import { RunManifest, buildRunManifest } from './run-manifest';
+import type { ProcessedText, Word2VecConfig } from './word2vec';
+
+export type PipelineStage = 'initialization' | 'embeddings' | 'k-optimization' | 'clustering' | 'post-processing' | 'completed';
+export type PipelineProgress = (stage: PipelineStage, message: string, progress: number) => void;
+
+// k = -1 (or 'auto') runs the K search first
+export interface PipelineClusteringConfig extends Omit<ClusteringConfig, 'k'> {
+  k: number | 'auto';
+  googleBatchSize?: number;
+  googleBatchDelay?: number;
+  stabilityBootstraps?: number; // 0 or unset skips the stability analysis
+  clusterLabeler?: string; // 'none' (default), 'mock' or 'chat-completion'
+  representatives?: number; // representative videos per cluster
+}
+
+export interface ClusteringPipelineInput {
+  videos?: VideoRecord[];
+  titles?: string[]; // older clients: titles only, the results carry no video IDs
+  clusteringConfig: PipelineClusteringConfig;
+  word2vecConfig?: Partial<Word2VecConfig> & { approach?: string; model?: string };
+  profileId?: string;
+  preExistingEmbeddings?: ProcessedText[];
+  signal?: AbortSignal;
+}
+
+export interface ClusteringPipelineOutput {
+  results: ClusteringResults;
+  summaries: ClusterSummary[];
+  processedTexts: ProcessedText[];
+  kOptimization: KAnalysisResult | null;
+  embeddingCache: EmbeddingCacheStats | null;
+  manifest: RunManifest;
+}
+
+const ENGLISH_MIN_CONFIDENCE = 0.5;
+
+// Problems with the request itself; routes show the message as is
+export class ClusteringPipelineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClusteringPipelineError';
+  }
+}
+
+// Videos with an ID and a title, first occurrence of each ID kept; titles-only
+// input becomes records with an empty ID
+function inputRecords(input: ClusteringPipelineInput): VideoRecord[] {
+  if (Array.isArray(input.videos) && input.videos.length > 0) {
+    const seen = new Set<string>();
+    return input.videos.filter(video => {
+      if (typeof video?.id !== 'string' || !video.id || typeof video.title !== 'string' || !video.title) return false;
+      if (seen.has(video.id)) return false;
+      seen.add(video.id);
+      return true;
+    });
+  }
+
+  if (Array.isArray(input.titles)) {
+    return input.titles
+      .filter(title => typeof title === 'string' && title)
+      .map(title => ({ id: '', title }));
+  }
+
+  return [];
+}
+
+function filterEnglishVideos(records: VideoRecord[], onProgress: PipelineProgress): VideoRecord[] {
+  onProgress('initialization', 'Detecting languages and filtering content...', 8);
+
+  const englishRecords = records.filter(record => {
+    const detection = detectLanguage(record.title);
+    return detection.isEnglish && detection.confidence > ENGLISH_MIN_CONFIDENCE;
+  });
+
+  onProgress('initialization',
+    `Filtered to ${englishRecords.length} English videos (removed ${records.length - englishRecords.length} non-English)`,
+    10
+  );
+  return englishRecords;
+}
+
+// Embeddings are matched to the videos by ID, or by title for entries without one
+function usePreExistingEmbeddings(
+  preExistingEmbeddings: ProcessedText[],
+  records: VideoRecord[],
+  onProgress: PipelineProgress
+): { embeddings: number[][]; processedTexts: ProcessedText[]; clusteredRecords: VideoRecord[] } {
+  console.log(`[EMBEDDING] Using pre-existing embeddings: ${preExistingEmbeddings.length} embeddings`);
+  onProgress('embeddings', `Using pre-existing embeddings from database (${preExistingEmbeddings.length} videos)...`, 15);
+
+  // Only the videos that survived the language filter, each used once
+  const byId = new Map<string, VideoRecord>();
+  const byTitle = new Map<string, VideoRecord>();
+  records.forEach(record => {
+    if (record.id) byId.set(record.id, record);
+    if (!byTitle.has(record.title)) byTitle.set(record.title, record);
+  });
+  const used = new Set<VideoRecord>();
+  const filtered: { item: ProcessedText; record: VideoRecord }[] = [];
+  preExistingEmbeddings.forEach(item => {
+    const record = item.id ? byId.get(item.id) : byTitle.get(item.original);
+    if (record && !used.has(record)) {
+      used.add(record);
+      filtered.push({ item, record });
+    }
+  });
+
+  if (filtered.length === 0) {
+    throw new ClusteringPipelineError('No pre-existing embeddings match the English-only videos for clustering.');
+  }
+
+  onProgress('embeddings', `Using ${filtered.length} pre-existing embeddings...`, 30);
+
+  const processedTexts = filtered.map(({ item, record }) => ({
+    ...(record.id ? { id: record.id } : {}),
+    original: item.original,
+    tokens: item.tokens || item.original.split(' '),
+    vector: item.vector,
+    coverage: item.coverage || 100
+  }));
+
+  onProgress('embeddings', `Pre-existing embeddings ready: ${processedTexts.length} vectors with ${processedTexts[0]?.vector.length || 0}D`, 60);
+  return {
+    embeddings: processedTexts.map(item => item.vector),
+    processedTexts,
+    clusteredRecords: filtered.map(({ record }) => record)
+  };
+}
+
+// Log non-finite values and report the value range of a sample of the vectors
+function checkEmbeddingQuality(embeddings: number[][], provider: EmbeddingProvider, onProgress: PipelineProgress) {
+  onProgress('embeddings', 'Checking for invalid values (NaN/Infinity)...', 58);
+
+  let invalidCount = 0;
+  embeddings.slice(0, 10).forEach(vector => {
+    vector.forEach(value => {
+      if (!isFinite(value)) invalidCount++;
+    });
+  });
+  if (invalidCount > 0) {
+    console.warn(`Warning: ${invalidCount} invalid values in the first embeddings from ${provider.id}`);
+  }
+
+  onProgress('embeddings', 'Computing embedding statistics and quality metrics...', 59);
+
+  const sample = embeddings.slice(0, 100);
+  const dimensions = embeddings[0].length;
+  let minVal = Infinity, maxVal = -Infinity, sumSq = 0;
+  sample.forEach(vector => {
+    vector.forEach(value => {
+      minVal = Math.min(minVal, value);
+      maxVal = Math.max(maxVal, value);
+      sumSq += value * value;
+    });
+  });
+  const avgMagnitude = Math.sqrt(sumSq / (sample.length * dimensions));
+
+  onProgress('embeddings', `Quality check: ${dimensions}D vectors, range [${minVal.toFixed(3)}, ${maxVal.toFixed(3)}], avg magnitude ${avgMagnitude.toFixed(3)}`, 60);
+}
+
+async function generateEmbeddings(
+  input: ClusteringPipelineInput,
+  records: VideoRecord[],
+  onProgress: PipelineProgress
+): Promise<{ embeddings: number[][]; processedTexts: ProcessedText[]; cacheStats: EmbeddingCacheStats | null; provider: EmbeddingProvider }> {
+  const { clusteringConfig, word2vecConfig, profileId } = input;
+  const titles = records.map(record => record.title);
+
+  let provider: EmbeddingProvider;
+  try {
+    provider = resolveEmbeddingProvider(word2vecConfig || {});
+  } catch (providerError: any) {
+    throw new ClusteringPipelineError(providerError.message);
+  }
+
+  const apiKey = provider.apiKey ? getApiKey(profileId, provider.apiKey) : undefined;
+  if (provider.apiKeyRequired && !apiKey) {
+    throw new ClusteringPipelineError(`The selected credential profile has no ${provider.apiKey} API key configured.`);
+  }
+
+  console.log(`[EMBEDDING] Provider: ${provider.id}, Titles to cluster: ${titles.length}`);
+  onProgress('embeddings', `Generating ${provider.label} embeddings for ${titles.length} English videos...`, 15);
+
+  const embeddingCache = provider.cacheable ? await openEmbeddingCache(profileId) : null;
+  let cacheStats: EmbeddingCacheStats | null = null;
+  let embeddings: number[][];
+
+  try {
+    embeddings = await embedTexts(provider, titles, {
+      apiKey,
+      cache: embeddingCache?.cache,
+      onCacheLookup: stats => {
+        cacheStats = stats;
+        onProgress('embeddings',
+          `Embedding cache: ${stats.hits} hits, ${stats.misses} misses${stats.misses === 0 ? ' - no API calls needed' : ''}`,
+          18
+        );
+      },
+      word2vec: { ...word2vecConfig, seed: clusteringConfig.seed },
+      // Only the Google batch size / delay are tunable from the UI
+      batchSize: provider.apiKey === 'google' ? clusteringConfig.googleBatchSize : undefined,
+      batchDelayMs: provider.apiKey === 'google' ? clusteringConfig.googleBatchDelay : undefined,
+      onProgress: (batch, totalBatches, message) => {
+        onProgress('embeddings', message, 20 + (batch / totalBatches) * 35); // 20% to 55%
+      },
+      signal: input.signal
+    });
+
+    if (!embeddings || embeddings.length === 0) {
+      throw new Error('No embeddings were generated');
+    }
+  } catch (embeddingError: any) {
+    if (embeddingError instanceof ClusteringCancelledError) throw embeddingError;
+    console.error('Embedding generation failed:', embeddingError);
+    throw new ClusteringPipelineError(`Failed to generate embeddings: ${embeddingError.message || 'Unknown error'}. Please check your internet connection and API keys and try again.`);
+  } finally {
+    await embeddingCache?.close();
+  }
+
+  onProgress('embeddings', `Successfully generated ${embeddings.length} embeddings`, 56);
+  checkEmbeddingQuality(embeddings, provider, onProgress);
+
+  const processedTexts = records.map((record, index) => ({
+    ...(record.id ? { id: record.id } : {}),
+    original: record.title,
+    tokens: record.title.split(' '),
+    vector: embeddings[index],
+    coverage: 100
+  }));
+
+  return { embeddings, processedTexts, cacheStats, provider };
+}
+
+async function clusterEmbeddings(
+  embeddings: number[][],
+  titles: string[],
+  clusteringConfig: PipelineClusteringConfig,
+  signal: AbortSignal | undefined,
+  onProgress: PipelineProgress
+): Promise<{ results: ClusteringResults; kOptimization: KAnalysisResult | null }> {
+  const config: ClusteringConfig = {
+    ...clusteringConfig,
+    k: clusteringConfig.k === 'auto' ? -1 : clusteringConfig.k,
+    seed: clusteringConfig.seed ?? DEFAULT_SEED
+  };
+
+  if (config.algorithm === 'hdbscan') {
+    onProgress('clustering', `Running HDBSCAN (min cluster size ${config.minClusterSize || DEFAULT_MIN_CLUSTER_SIZE})...`, 70);
+
+    const results = await runClusteringTask(
+      { type: 'hdbscan', vectors: embeddings, titles, config },
+      (progress, message) => onProgress('clustering', message, Math.round(70 + progress * 18)),
+      signal
+    );
+
+    onProgress('clustering', `HDBSCAN found ${results.clusters.length} clusters, ${results.noise?.length || 0} unclustered videos`, 88);
+    return { results, kOptimization: null };
+  }
+
+  let kOptimization: KAnalysisResult | null = null;
+
+  if (config.k === -1) {
+    console.log(`[K-OPT] Starting K optimization for ${embeddings.length} embeddings`);
+    onProgress('k-optimization', 'Analyzing optimal K (elbow, silhouette, gap statistic, Davies-Bouldin, Calinski-Harabasz)...', 62);
+
+    const maxK = Math.max(10, Math.floor(embeddings.length * 0.1));
+    kOptimization = await runClusteringTask(
+      { type: 'optimal-k', vectors: embeddings, maxK, options: { metric: config.metric, seed: config.seed } },
+      // Progress from 62% to 68% as K goes from 2 to maxK
+      (progress, message) => onProgress('k-optimization', message, Math.round(62 + progress * 6)),
+      signal
+    );
+    config.k = kOptimization.optimalK;
+
+    onProgress('k-optimization', `Optimal K determined: ${config.k} clusters (tested K=2 to K=${maxK})`, 68);
+  }
+
+  if (config.algorithm === 'hierarchical') {
+    onProgress('clustering', `Building ${config.linkage || 'ward'} linkage tree for ${embeddings.length} videos...`, 70);
+
+    const results = await runClusteringTask(
+      { type: 'hierarchical', vectors: embeddings, titles, config },
+      (progress, message) => onProgress('clustering', message, Math.round(70 + progress * 18)),
+      signal
+    );
+
+    onProgress('clustering', `Cut dendrogram into ${config.k} clusters`, 88);
+    return { results, kOptimization };
+  }
+
+  onProgress('clustering',
+    `Initializing ${config.metric === 'cosine' ? 'spherical (cosine) ' : ''}K-means with ${config.k} clusters...`,
+    70
+  );
+
+  const results = await runClusteringTask({ type: 'kmeans', vectors: embeddings, titles, config }, undefined, signal);
+
+  onProgress('clustering', `K-means converged after ${results.iterations} iterations`, 85);
+  return { results, kOptimization };
+}
+
+// Rerun the chosen algorithm (with the K that was actually used) on bootstrap
+// subsamples; see utils/stability.ts
+async function assessClusterStability(
+  embeddings: number[][],
+  results: ClusteringResults,
+  clusteringConfig: PipelineClusteringConfig,
+  signal: AbortSignal | undefined,
+  onProgress: PipelineProgress
+): Promise<StabilityResult> {
+  const labels = new Array(embeddings.length).fill(NOISE_LABEL);
+  results.clusters.forEach(cluster => cluster.forEach(point => {
+    if (point.index !== undefined) labels[point.index] = point.clusterId;
+  }));
+
+  const bootstraps = clusteringConfig.stabilityBootstraps!;
+  onProgress('post-processing', `Assessing cluster stability over ${bootstraps} bootstrap resamples...`, 90);
+
+  const stability = await runClusteringTask(
+    {
+      type: 'stability',
+      vectors: embeddings,
+      labels,
+      config: { ...clusteringConfig, k: results.clusters.length, seed: clusteringConfig.seed ?? DEFAULT_SEED },
+      options: { bootstraps, seed: clusteringConfig.seed ?? DEFAULT_SEED }
+    },
+    (progress, message) => onProgress('post-processing', message, Math.round(90 + progress * 5)),
+    signal
+  );
+
+  const unstable = stability.clusters.filter(cluster => cluster.level === 'unstable').length;
+  onProgress('post-processing', `Stability: ${unstable} of ${stability.clusters.length} clusters unstable`, 95);
+  return stability;
+}
+
+export async function runClusteringPipeline(
+  input: ClusteringPipelineInput,
+  onProgress: PipelineProgress = () => {}
+): Promise<ClusteringPipelineOutput> {
+  const { clusteringConfig, preExistingEmbeddings, signal } = input;
+  const records = inputRecords(input);
+
+  if (records.length === 0) {
+    throw new ClusteringPipelineError('Provide a non-empty videos array ({ id, title }) or titles array');
+  }
+  if (!clusteringConfig) {
+    throw new ClusteringPipelineError('Missing clusteringConfig');
+  }
+
+  // HDBSCAN finds the number of clusters itself; an automatic K needs at least two
+  const isDensityBased = clusteringConfig.algorithm === 'hdbscan';
+  const minClusterSize = clusteringConfig.minClusterSize || DEFAULT_MIN_CLUSTER_SIZE;
+  const requiredVideos = isDensityBased ? minClusterSize : Math.max(2, Number(clusteringConfig.k) || 2);
+  const isAutomaticK = clusteringConfig.k === 'auto' || Number(clusteringConfig.k) <= 0;
+  const requirement = isDensityBased
+    ? `a minimum cluster size of ${minClusterSize}`
+    : isAutomaticK ? 'automatic K' : `${clusteringConfig.k} clusters`;
+
+  if (records.length < requiredVideos) {
+    throw new ClusteringPipelineError(`Need at least ${requiredVideos} videos for ${requirement}.`);
+  }
+
+  // Resolved up front so a misconfigured labeler fails before any embedding work
+  const labeler = resolveClusterLabeler(clusteringConfig.clusterLabeler, input.profileId);
+
+  onProgress('initialization', 'Starting clustering analysis...', 5);
+
+  const englishRecords = filterEnglishVideos(records, onProgress);
+  if (englishRecords.length < 2) {
+    throw new ClusteringPipelineError(`Not enough English content to cluster. Found only ${englishRecords.length} English videos out of ${records.length} total.`);
+  }
+  if (englishRecords.length < requiredVideos) {
+    throw new ClusteringPipelineError(`Need at least ${requiredVideos} English videos for ${requirement}. Found only ${englishRecords.length}.`);
+  }
+
+  let embeddings: number[][];
+  let processedTexts: ProcessedText[];
+  let clusteredRecords: VideoRecord[] = englishRecords;
+  let embeddingCache: EmbeddingCacheStats | null = null;
+  let embeddingProvider: { id: string; model: string | null } = { id: 'database', model: input.word2vecConfig?.model || null };
+  const usesPreExisting = !!preExistingEmbeddings && preExistingEmbeddings.length > 0;
+
+  if (usesPreExisting) {
+    ({ embeddings, processedTexts, clusteredRecords } = usePreExistingEmbeddings(preExistingEmbeddings!, englishRecords, onProgress));
+  } else {
+    const generated = await generateEmbeddings(input, englishRecords, onProgress);
+    ({ embeddings, processedTexts } = generated);
+    embeddingCache = generated.cacheStats;
+    embeddingProvider = generated.provider;
+  }
+
+  // Cluster titles in the order of the embeddings
+  const clusterTitles = processedTexts.map(item => item.original);
+  const clustered = await clusterEmbeddings(embeddings, clusterTitles, clusteringConfig, signal, onProgress);
+  const results = attachVideoRecords(clustered.results, clusteredRecords);
+  const { kOptimization } = clustered;
+
+  if (clusteringConfig.stabilityBootstraps && clusteringConfig.stabilityBootstraps > 0) {
+    results.stability = await assessClusterStability(embeddings, results, clusteringConfig, signal, onProgress);
+  }
+
+  onProgress('post-processing', 'Generating cluster summaries...', 96);
+  let summaries = generateClusterSummaries(results, {
+    metric: clusteringConfig.metric,
+    representatives: clusteringConfig.representatives
+  });
+
+  if (labeler) {
+    summaries = await labelClusterSummaries(labeler, summaries, results, {
+      signal,
+      onProgress: (done, total, message) => onProgress('post-processing', message, 97 + Math.round((done / Math.max(1, total)) * 2))
+    });
+  }
+
+  const manifest = buildRunManifest({
+    seed: clusteringConfig.seed ?? DEFAULT_SEED,
+    clusteredTitles: clusterTitles,
+    input: { titles: records.length, clustered: clusterTitles.length, preExistingEmbeddings: usesPreExisting },
+    filters: { language: 'en', minConfidence: ENGLISH_MIN_CONFIDENCE, removed: records.length - englishRecords.length },
+    embedding: { provider: embeddingProvider.id, model: embeddingProvider.model, dimensions: embeddings[0]?.length || 0 },
+    clustering: {
+      algorithm: clusteringConfig.algorithm,
+      requestedK: clusteringConfig.k,
+      k: results.clusters.length,
+      metric: clusteringConfig.metric || 'euclidean',
+      linkage: clusteringConfig.algorithm === 'hierarchical' ? clusteringConfig.linkage || 'ward' : undefined,
+      minClusterSize: clusteringConfig.algorithm === 'hdbscan' ? clusteringConfig.minClusterSize || DEFAULT_MIN_CLUSTER_SIZE : undefined,
+      minSamples: clusteringConfig.algorithm === 'hdbscan' ? clusteringConfig.minSamples : undefined,
+      maxIterations: clusteringConfig.maxIterations,
+      tolerance: clusteringConfig.tolerance
+    }
+  });
+
+  onProgress('completed', `Analysis complete! Generated ${results.clusters.length} clusters${results.noise?.length ? ` and ${results.noise.length} unclustered videos` : ''}.`, 100);
+
+  return { results, summaries, processedTexts, kOptimization, embeddingCache, manifest };
+}
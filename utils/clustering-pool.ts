@@ -0,0 +1,191 @@
+// Server-side pool of clustering workers (worker_threads). Tasks queue until a
+// worker is free; aborting a task's signal terminates its worker mid-computation
+// and a fresh worker takes its place for the next task.
+// If a worker cannot start (e.g. the server bundle has no runnable worker
+// file), tasks fall back to running in-process, blocking the event loop while
+// they compute rather than failing the request.
+import os from 'node:os';
+import { Worker } from 'node:worker_threads';
+import {
+  ClusteringTask,
+  ClusteringTaskResult,
+  ClusteringWorkerResponse,
+  runClusteringTaskSync
+} from './clustering-tasks';
+
+export type { ClusteringTask } from './clustering-tasks';
+
+export class ClusteringCancelledError extends Error {
+  constructor() {
+    super('Clustering cancelled');
+    this.name = 'ClusteringCancelledError';
+  }
+}
+
+// Leave one core for the event loop
+const POOL_SIZE = Math.max(1, Math.min(4, os.cpus().length - 1));
+
+const idleWorkers: Worker[] = [];
+// null hands the task to the in-process fallback
+const waiting: ((worker: Worker | null) => void)[] = [];
+// Workers that posted 'ready'; one that fails before that could not start
+const readyWorkers = new WeakSet<Worker>();
+let workerCount = 0;
+let inProcessFallback = false;
+
+function useInProcessFallback(error: Error) {
+  if (!inProcessFallback) {
+    console.warn(`[CLUSTERING] Worker failed to start, running clustering in-process: ${error.message}`);
+  }
+  inProcessFallback = true;
+  waiting.splice(0).forEach(next => next(null));
+}
+
+function createWorker(): Worker | null {
+  if (inProcessFallback) return null;
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./clustering.worker.ts', import.meta.url));
+  } catch (error: any) {
+    useInProcessFallback(error);
+    return null;
+  }
+  workerCount++;
+  // Idle workers must not keep the server process alive
+  worker.unref();
+  const onReady = (message: ClusteringWorkerResponse) => {
+    if (message.type !== 'ready') return;
+    readyWorkers.add(worker);
+    worker.off('message', onReady);
+  };
+  worker.on('message', onReady);
+  // An idle worker that exits leaves the pool; busy ones are discarded by their task
+  worker.once('exit', () => {
+    const index = idleWorkers.indexOf(worker);
+    if (index >= 0) {
+      idleWorkers.splice(index, 1);
+      workerCount--;
+    }
+  });
+  return worker;
+}
+
+function acquireWorker(): Promise<Worker | null> {
+  const idle = idleWorkers.pop();
+  if (idle) return Promise.resolve(idle);
+  if (workerCount < POOL_SIZE || inProcessFallback) return Promise.resolve(createWorker());
+  return new Promise(resolve => waiting.push(resolve));
+}
+
+function releaseWorker(worker: Worker) {
+  const next = waiting.shift();
+  if (next) next(worker);
+  else idleWorkers.push(worker);
+}
+
+// A terminated or crashed worker leaves the pool; hand its slot to the next task
+function discardWorker(worker: Worker) {
+  worker.terminate();
+  workerCount--;
+  const next = waiting.shift();
+  if (next) next(createWorker());
+}
+
+// Deferred a tick so the caller's progress handling is in place, as with a worker
+function runInProcess<T extends ClusteringTask>(
+  task: T,
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<ClusteringTaskResult<T>> {
+  return new Promise((resolve, reject) => setImmediate(() => {
+    if (signal?.aborted) {
+      reject(new ClusteringCancelledError());
+      return;
+    }
+    try {
+      resolve(runClusteringTaskSync(task, onProgress || (() => {})) as ClusteringTaskResult<T>);
+    } catch (error) {
+      reject(error);
+    }
+  }));
+}
+
+export function runClusteringTask<T extends ClusteringTask>(
+  task: T,
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<ClusteringTaskResult<T>> {
+  if (signal?.aborted) return Promise.reject(new ClusteringCancelledError());
+
+  return new Promise((resolve, reject) => {
+    let worker: Worker | null = null;
+    let settled = false;
+
+    const onQueued = (acquired: Worker | null) => {
+      if (settled) {
+        if (acquired) releaseWorker(acquired);
+        return;
+      }
+      if (!acquired) {
+        finish(false);
+        runInProcess(task, onProgress, signal).then(resolve, reject);
+        return;
+      }
+      worker = acquired;
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      worker.postMessage(task);
+    };
+
+    const finish = (keepWorker: boolean) => {
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      if (!worker) return;
+      worker.off('message', onMessage);
+      worker.off('error', onError);
+      worker.off('exit', onExit);
+      if (keepWorker) releaseWorker(worker);
+      else discardWorker(worker);
+    };
+
+    const onMessage = (message: ClusteringWorkerResponse) => {
+      if (message.type === 'ready') {
+        return;
+      } else if (message.type === 'progress') {
+        onProgress?.(message.progress, message.message);
+      } else if (message.type === 'result') {
+        finish(true);
+        resolve(message.result as ClusteringTaskResult<T>);
+      } else {
+        finish(true);
+        reject(new Error(message.error));
+      }
+    };
+
+    // A worker that fails before it is ready could not load; the task runs
+    // in-process instead
+    const fail = (error: Error) => {
+      const started = readyWorkers.has(worker!);
+      if (!started) useInProcessFallback(error);
+      finish(false);
+      if (started) reject(error);
+      else runInProcess(task, onProgress, signal).then(resolve, reject);
+    };
+
+    const onError = (error: Error) => fail(error);
+
+    // A worker can exit without an error event (process.exit in a dependency,
+    // killed by the OS); without this the task would never settle
+    const onExit = (code: number) => fail(new Error(`Clustering worker exited unexpectedly with code ${code}`));
+
+    const onAbort = () => {
+      finish(false);
+      reject(new ClusteringCancelledError());
+    };
+
+    signal?.addEventListener('abort', onAbort);
+    acquireWorker().then(onQueued);
+  });
+}
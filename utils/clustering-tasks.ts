@@ -0,0 +1,53 @@
+// The clustering tasks the worker pool runs, see clustering-pool.ts. Kept
+// apart from the worker entry so a task can also run in-process when no worker
+// can be started.
+import {
+  ClusteringConfig,
+  ClusteringResults,
+  clusterLabels,
+  performHDBSCANClustering,
+  performHierarchicalClustering,
+  performKMeansClustering
+} from './clustering';
+import { KAnalysisOptions, KAnalysisResult, analyzeOptimalK } from './k-optimization';
+import { StabilityOptions, StabilityResult, assessStability } from './stability';
+
+export type ClusteringTask =
+  | { type: 'optimal-k'; vectors: number[][]; maxK: number; options: KAnalysisOptions }
+  | { type: 'kmeans' | 'hdbscan' | 'hierarchical'; vectors: number[][]; titles: string[]; config: ClusteringConfig }
+  | { type: 'stability'; vectors: number[][]; labels: number[]; config: ClusteringConfig; options: StabilityOptions };
+
+export type ClusteringTaskResult<T extends ClusteringTask> =
+  T extends { type: 'optimal-k' } ? KAnalysisResult :
+  T extends { type: 'stability' } ? StabilityResult :
+  ClusteringResults;
+
+// 'ready' is posted once the worker's modules have loaded
+export type ClusteringWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'progress'; progress: number; message: string }
+  | { type: 'result'; result: KAnalysisResult | ClusteringResults | StabilityResult }
+  | { type: 'error'; error: string };
+
+export function runClusteringTaskSync(task: ClusteringTask, onProgress: (progress: number, message: string) => void) {
+  switch (task.type) {
+    case 'optimal-k':
+      return analyzeOptimalK(task.vectors, task.maxK, (k, maxK, message) => {
+        onProgress(maxK > 2 ? (k - 2) / (maxK - 2) : 1, message);
+      }, task.options);
+    case 'kmeans':
+      return performKMeansClustering(task.vectors, task.titles, task.config);
+    case 'hdbscan':
+      return performHDBSCANClustering(task.vectors, task.titles, task.config, onProgress);
+    case 'hierarchical':
+      return performHierarchicalClustering(task.vectors, task.titles, task.config, onProgress);
+    case 'stability':
+      return assessStability(
+        task.vectors,
+        task.labels,
+        (sample, seed) => clusterLabels(sample, { ...task.config, seed }),
+        task.options,
+        onProgress
+      );
+  }
+}
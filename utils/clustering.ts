@@ -1,31 +1,68 @@
-// K-means clustering utilities with Word2Vec integration
+// Clustering utilities (K-means, HDBSCAN, hierarchical) with Word2Vec integration
 import { kmeans } from 'ml-kmeans';
 import {
   Word2VecConfig,
-  ProcessedText,
   prepareDataForClustering,
   cosineSimilarity
 } from './word2vec';
-import { extractKeywords } from './stopwords';
+import { HDBSCANProgress, runHDBSCAN } from './hdbscan';
+import { Dendrogram, HierarchicalProgress, LinkageMethod, buildDendrogram, cutDendrogramByCount } from './hierarchical';
+import { DistanceMetric } from './distance';
+import { sphericalKMeans } from './spherical-kmeans';
+import { clusteringResultsFromLabels } from './cluster-summaries';
+import { SilhouetteResult, computeSilhouette } from './silhouette';
+import { DEFAULT_SEED, createRandom } from './random';
+import type { StabilityResult } from './stability';
+import type { ClusterKeyword } from './cluster-labeling';
+import type { GeneratedClusterLabel } from './cluster-labelers';
+import type { ClusterRepresentative } from './representatives';
 
 export interface ClusteringConfig {
   k: number;
-  algorithm: 'kmeans' | 'kmeans++' | 'hierarchical';
+  algorithm: 'kmeans' | 'kmeans++' | 'hierarchical' | 'hdbscan';
   maxIterations?: number;
   tolerance?: number;
+  // HDBSCAN only; k is ignored and the number of clusters comes from the data
+  minClusterSize?: number;
+  minSamples?: number;
+  // Distance for all algorithms; 'cosine' runs spherical K-means on unit vectors
+  metric?: DistanceMetric;
+  // Hierarchical only
+  linkage?: LinkageMethod;
+  // K-means initialization and silhouette sampling; same seed and input, same clusters
+  seed?: number;
+}
+
+export const DEFAULT_MIN_CLUSTER_SIZE = 5;
+
+// A video as it enters the pipeline; fields other than id and title travel
+// with the clustered point as its metadata
+export interface VideoRecord {
+  id: string;
+  title: string;
+  [field: string]: unknown;
 }
 
 export interface ClusterResult {
   clusterId: number;
+  index?: number; // position in the clustered input
   title: string;
+  videoId?: string;
+  metadata?: Record<string, unknown>;
   vector: number[];
   distance: number;
+  probability?: number; // HDBSCAN membership strength, 0-1
+  silhouette?: number; // only set for points in the silhouette sample
 }
 
 export interface ClusteringResults {
   clusters: ClusterResult[][];
+  noise?: ClusterResult[]; // HDBSCAN points that belong to no cluster (clusterId -1)
+  dendrogram?: Dendrogram; // hierarchical merge tree, leaves in input order
   centroids: number[][];
   silhouetteScore?: number;
+  silhouette?: Omit<SilhouetteResult, 'points'>; // confidence interval and per-cluster scores
+  stability?: StabilityResult; // bootstrap Jaccard per cluster, when requested
   inertia: number;
   iterations: number;
   convergenceTime: number;
@@ -40,9 +77,17 @@ export interface ClusteringResults {
 export interface ClusterSummary {
   id: number;
   size: number;
-  topWords: string[];
+  topWords: string[]; // keyword phrases, best first
+  name?: string; // short label from the top keywords
+  keywords?: ClusterKeyword[]; // ranked c-TF-IDF key phrases, see utils/cluster-labeling.ts
+  generatedLabel?: GeneratedClusterLabel; // title and description from a ClusterLabeler
   avgDistance: number;
-  examples: string[];
+  examples: string[]; // titles of the representatives
+  representatives?: ClusterRepresentative[]; // MMR picks around the centroid, see utils/representatives.ts
+  medoid?: ClusterRepresentative; // member with the smallest total distance to the others
+  isNoise?: boolean; // the "Unclustered" bucket, id -1
+  silhouette?: number; // mean silhouette of the cluster
+  stability?: number; // mean bootstrap Jaccard, see utils/stability.ts
 }
 
 // Main clustering function
@@ -62,188 +107,134 @@ export async function performClustering(
 
   // Step 2: Perform K-means clustering
   console.log(`Running ${clusteringConfig.algorithm} clustering...`);
-  const clusteringStartTime = Date.now();
-
-  const result = kmeans(vectors, clusteringConfig.k, {
-    initialization: clusteringConfig.algorithm === 'kmeans++' ? 'kmeans++' : 'random',
-    maxIterations: clusteringConfig.maxIterations || 100,
-    tolerance: clusteringConfig.tolerance || 1e-4
-  });
-
-  const clusteringTime = Date.now() - clusteringStartTime;
+  const results = performKMeansClustering(vectors, videoTitles, clusteringConfig);
 
-  // Step 3: Organize results
-  const clusters: ClusterResult[][] = Array.from({ length: clusteringConfig.k }, () => []);
-  let totalInertia = 0;
+  // Step 3: Calculate statistics
+  results.statistics.avgCoverage = processedTexts.reduce((sum, pt) => sum + pt.coverage, 0) / processedTexts.length;
+  results.statistics.processingTime = Date.now() - startTime;
 
-  result.clusters.forEach((clusterId: number, index: number) => {
-    const distance = calculateDistanceToCentroid(
-      vectors[index],
-      result.centroids[clusterId]
-    );
-
-    // Add to total inertia (within-cluster sum of squares)
-    totalInertia += distance * distance;
-
-    clusters[clusterId].push({
-      clusterId,
-      title: videoTitles[index],
-      vector: vectors[index],
-      distance
-    });
-  });
+  return results;
+}
 
-  // Step 4: Calculate statistics
-  const avgCoverage = processedTexts.reduce((sum, pt) => sum + pt.coverage, 0) / processedTexts.length;
-  const clusterSizes = clusters.map(cluster => cluster.length);
-  const totalProcessingTime = Date.now() - startTime;
+function fitKMeans(vectors: number[][], clusteringConfig: ClusteringConfig) {
+  const seed = clusteringConfig.seed ?? DEFAULT_SEED;
+  const options = {
+    initialization: clusteringConfig.algorithm === 'kmeans' ? 'random' as const : 'kmeans++' as const,
+    maxIterations: clusteringConfig.maxIterations || 100,
+    tolerance: clusteringConfig.tolerance || 1e-4
+  };
 
-  // Step 5: Calculate silhouette score (optional, computationally expensive)
-  // const silhouetteScore = calculateSilhouetteScore(vectors, result.clusters);
+  return clusteringConfig.metric === 'cosine'
+    ? sphericalKMeans(vectors, clusteringConfig.k, { ...options, random: createRandom(seed) })
+    : kmeans(vectors, clusteringConfig.k, { ...options, seed });
+}
 
+function hdbscanOptions(clusteringConfig: ClusteringConfig) {
+  const minClusterSize = clusteringConfig.minClusterSize || DEFAULT_MIN_CLUSTER_SIZE;
   return {
-    clusters,
-    centroids: result.centroids,
-    inertia: totalInertia,
-    iterations: result.iterations,
-    convergenceTime: clusteringTime,
-    statistics: {
-      clusterSizes,
-      avgCoverage,
-      totalVideos: videoTitles.length,
-      processingTime: totalProcessingTime
-    }
+    minClusterSize,
+    minSamples: clusteringConfig.minSamples || minClusterSize,
+    metric: clusteringConfig.metric || 'euclidean'
   };
 }
 
-// Calculate distance from point to centroid
-function calculateDistanceToCentroid(point: number[], centroid: number[]): number {
-  let sumSquaredDiffs = 0;
-  for (let i = 0; i < point.length; i++) {
-    const diff = point[i] - centroid[i];
-    sumSquaredDiffs += diff * diff;
-  }
-  return Math.sqrt(sumSquaredDiffs);
-}
-
-// Generate cluster summaries with insights
-export function generateClusterSummaries(
-  clusteringResults: ClusteringResults,
-  processedTexts: ProcessedText[]
-): ClusterSummary[] {
-  return clusteringResults.clusters.map((cluster, clusterId) => {
-    const clusterTexts = cluster.map((item, index) => {
-      const originalIndex = clusteringResults.clusters
-        .slice(0, clusterId)
-        .reduce((sum, c) => sum + c.length, 0) + index;
-      return processedTexts[originalIndex];
-    });
-
-    // Calculate average distance
-    const avgDistance = cluster.reduce((sum, item) => sum + item.distance, 0) / cluster.length;
-
-    // Extract meaningful keywords from this cluster (with stopwords removed)
-    const clusterTitles = cluster.map(item => item.title);
-    const topWords = extractKeywords(clusterTitles, 5);
-
-    // Get example titles (shortest ones for readability)
-    const examples = cluster
-      .sort((a, b) => a.title.length - b.title.length)
-      .slice(0, 3)
-      .map(item => item.title);
+// K-means on precomputed embeddings. With the cosine metric this is spherical
+// K-means, and distances and inertia are reported as cosine distances.
+export function performKMeansClustering(
+  vectors: number[][],
+  titles: string[],
+  clusteringConfig: ClusteringConfig
+): ClusteringResults {
+  const startTime = Date.now();
+  const metric = clusteringConfig.metric || 'euclidean';
+  const result = fitKMeans(vectors, clusteringConfig);
 
-    return {
-      id: clusterId,
-      size: cluster.length,
-      topWords,
-      avgDistance,
-      examples
-    };
+  const results = clusteringResultsFromLabels(vectors, titles, result.clusters, {
+    metric,
+    centroids: result.centroids,
+    seed: clusteringConfig.seed ?? DEFAULT_SEED
   });
+  results.iterations = result.iterations;
+  results.convergenceTime = results.statistics.processingTime = Date.now() - startTime;
+  return results;
 }
 
-// Calculate silhouette score for cluster quality assessment
-export function calculateSilhouetteScore(
+// Density-based clustering on precomputed embeddings
+export function performHDBSCANClustering(
   vectors: number[][],
-  clusterLabels: number[]
-): number {
-  const n = vectors.length;
-  let totalScore = 0;
-
-  for (let i = 0; i < n; i++) {
-    const currentCluster = clusterLabels[i];
-
-    // Calculate a(i): average distance to points in same cluster
-    const sameClusterDistances: number[] = [];
-    for (let j = 0; j < n; j++) {
-      if (i !== j && clusterLabels[j] === currentCluster) {
-        sameClusterDistances.push(euclideanDistance(vectors[i], vectors[j]));
-      }
-    }
-    const a = sameClusterDistances.length > 0
-      ? sameClusterDistances.reduce((sum, d) => sum + d, 0) / sameClusterDistances.length
-      : 0;
+  titles: string[],
+  clusteringConfig: ClusteringConfig,
+  onProgress?: HDBSCANProgress
+): ClusteringResults {
+  const startTime = Date.now();
+  const metric = clusteringConfig.metric || 'euclidean';
 
-    // Calculate b(i): minimum average distance to points in other clusters
-    const clusterIds = [...new Set(clusterLabels)];
-    let minAvgDistance = Infinity;
+  const { labels, probabilities } = runHDBSCAN(vectors, hdbscanOptions(clusteringConfig), onProgress);
 
-    for (const clusterId of clusterIds) {
-      if (clusterId === currentCluster) continue;
+  const results = clusteringResultsFromLabels(vectors, titles, labels, { metric, probabilities, seed: clusteringConfig.seed });
+  results.convergenceTime = results.statistics.processingTime = Date.now() - startTime;
+  return results;
+}
 
-      const otherClusterDistances: number[] = [];
-      for (let j = 0; j < n; j++) {
-        if (clusterLabels[j] === clusterId) {
-          otherClusterDistances.push(euclideanDistance(vectors[i], vectors[j]));
-        }
-      }
+// Agglomerative clustering on precomputed embeddings, cut at clusteringConfig.k.
+// The full tree is returned so the client can re-cut it without a new request.
+export function performHierarchicalClustering(
+  vectors: number[][],
+  titles: string[],
+  clusteringConfig: ClusteringConfig,
+  onProgress?: HierarchicalProgress
+): ClusteringResults {
+  const startTime = Date.now();
+  const metric = clusteringConfig.metric || 'euclidean';
 
-      if (otherClusterDistances.length > 0) {
-        const avgDistance = otherClusterDistances.reduce((sum, d) => sum + d, 0) / otherClusterDistances.length;
-        minAvgDistance = Math.min(minAvgDistance, avgDistance);
-      }
-    }
+  const dendrogram = buildDendrogram(vectors, clusteringConfig.linkage || 'ward', metric, onProgress);
+  const labels = cutDendrogramByCount(dendrogram, clusteringConfig.k);
 
-    const b = minAvgDistance === Infinity ? 0 : minAvgDistance;
+  const results = clusteringResultsFromLabels(vectors, titles, labels, { metric, seed: clusteringConfig.seed });
+  results.dendrogram = dendrogram;
+  results.convergenceTime = results.statistics.processingTime = Date.now() - startTime;
+  return results;
+}
 
-    // Calculate silhouette for this point
-    const silhouette = Math.max(a, b) === 0 ? 0 : (b - a) / Math.max(a, b);
-    totalScore += silhouette;
+// Labels only (NOISE_LABEL for HDBSCAN noise), for callers that rerun the
+// algorithm many times such as bootstrap stability
+export function clusterLabels(vectors: number[][], clusteringConfig: ClusteringConfig): number[] {
+  switch (clusteringConfig.algorithm) {
+    case 'hdbscan':
+      return runHDBSCAN(vectors, hdbscanOptions(clusteringConfig)).labels;
+    case 'hierarchical':
+      return cutDendrogramByCount(
+        buildDendrogram(vectors, clusteringConfig.linkage || 'ward', clusteringConfig.metric || 'euclidean'),
+        clusteringConfig.k
+      );
+    default:
+      return fitKMeans(vectors, clusteringConfig).clusters;
   }
-
-  return totalScore / n;
 }
 
-// Helper function for Euclidean distance
-function euclideanDistance(a: number[], b: number[]): number {
-  let sum = 0;
-  for (let i = 0; i < a.length; i++) {
-    sum += Math.pow(a[i] - b[i], 2);
-  }
-  return Math.sqrt(sum);
+// Calculate silhouette score for cluster quality assessment. Inputs larger
+// than sampleSize are estimated from a stratified sample.
+export function calculateSilhouetteScore(
+  vectors: number[][],
+  clusterLabels: number[],
+  metric: DistanceMetric = 'euclidean',
+  sampleSize?: number
+): number {
+  return computeSilhouette(vectors, clusterLabels, { metric, sampleSize }).score;
 }
 
 // Find optimal number of clusters using elbow method
 export function findOptimalClusters(
   vectors: number[][],
-  maxK: number = 10
+  maxK: number = 10,
+  metric: DistanceMetric = 'euclidean'
 ): { k: number; inertias: number[]; elbowScore: number } {
   const inertias: number[] = [];
+  const titles = vectors.map(() => '');
 
   for (let k = 2; k <= maxK; k++) {
-    const result = kmeans(vectors, k, {
-      initialization: 'kmeans++',
-      maxIterations: 50
-    });
-
-    // Calculate inertia manually
-    let totalInertia = 0;
-    result.clusters.forEach((clusterId: number, index: number) => {
-      const distance = calculateDistanceToCentroid(vectors[index], result.centroids[clusterId]);
-      totalInertia += distance * distance;
-    });
-
-    inertias.push(totalInertia);
+    const result = performKMeansClustering(vectors, titles, { k, algorithm: 'kmeans++', maxIterations: 50, metric });
+    inertias.push(result.inertia);
   }
 
   // Simple elbow detection (could be improved)
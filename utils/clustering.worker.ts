@@ -0,0 +1,21 @@
+// worker_threads entry for the CPU-heavy clustering steps, so K search,
+// clustering, silhouette scoring and stability resampling never block the
+// server's event loop.
+// See clustering-pool.ts.
+import { parentPort } from 'node:worker_threads';
+import { ClusteringTask, ClusteringWorkerResponse, runClusteringTaskSync } from './clustering-tasks';
+
+const port = parentPort!;
+
+port.on('message', (task: ClusteringTask) => {
+  const post = (message: ClusteringWorkerResponse) => port.postMessage(message);
+
+  try {
+    const result = runClusteringTaskSync(task, (progress, message) => post({ type: 'progress', progress, message }));
+    post({ type: 'result', result });
+  } catch (error: any) {
+    post({ type: 'error', error: error.message || 'Clustering failed' });
+  }
+});
+
+port.postMessage({ type: 'ready' } satisfies ClusteringWorkerResponse);
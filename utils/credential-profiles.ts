@@ -0,0 +1,207 @@
+// Server-side credential profiles
+// ClickHouse credentials and third-party API keys live only on the server. The
+// browser picks a profile by ID and routes resolve the secrets from here.
+//
+// Profiles are read, in order of precedence, from:
+//   1. ODATAI_PROFILES - a JSON array of CredentialProfile objects
+//   2. ODATAI_PROFILES_FILE (default .odatai/profiles.enc) - the same array,
+//      AES-256-GCM encrypted with the passphrase in ODATAI_PROFILES_KEY
+//      (create it with scripts/encrypt-profiles.mjs)
+//   3. CLICKHOUSE_HOST / CLICKHOUSE_USER / CLICKHOUSE_PASSWORD / CLICKHOUSE_DATABASE
+//      plus YOUTUBE_API_KEY / HUGGINGFACE_API_KEY / GOOGLE_API_KEY and
+//      CHAT_COMPLETION_BASE_URL / CHAT_COMPLETION_MODEL / CHAT_COMPLETION_API_KEY
+//      as a single "default" profile
+import { createDecipheriv, scryptSync } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { ClickHouseConfig } from './clickhouse';
+
+export interface ProfileApiKeys {
+  youtube?: string;
+  huggingFace?: string;
+  google?: string;
+  chatCompletion?: string;
+}
+
+// An OpenAI-compatible chat completion endpoint for cluster titles, see
+// utils/cluster-labelers.ts; the key (if any) is apiKeys.chatCompletion
+export interface ChatCompletionSettings {
+  baseUrl: string; // e.g. https://api.openai.com/v1, without /chat/completions
+  model: string;
+}
+
+export interface CredentialProfile {
+  id: string;
+  label?: string;
+  clickhouse?: ClickHouseConfig;
+  apiKeys?: ProfileApiKeys;
+  chatCompletion?: ChatCompletionSettings;
+}
+
+// The only shape that is ever sent to the browser
+export interface PublicProfile {
+  id: string;
+  label: string;
+  database: string | null;
+  hasDatabase: boolean;
+  apiKeys: Record<keyof ProfileApiKeys, boolean>;
+  chatCompletionModel: string | null;
+}
+
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileError';
+  }
+}
+
+const DEFAULT_PROFILES_FILE = '.odatai/profiles.enc';
+
+// Encrypted file layout shared with scripts/encrypt-profiles.mjs
+interface EncryptedProfilesFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export function decryptProfiles(file: EncryptedProfilesFile, passphrase: string): CredentialProfile[] {
+  const key = scryptSync(passphrase, Buffer.from(file.salt, 'base64'), 32);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(file.data, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+
+  return JSON.parse(plaintext);
+}
+
+function readProfilesFromFile(): CredentialProfile[] | null {
+  const filePath = path.resolve(process.cwd(), process.env.ODATAI_PROFILES_FILE || DEFAULT_PROFILES_FILE);
+  if (!existsSync(filePath)) return null;
+
+  const passphrase = process.env.ODATAI_PROFILES_KEY;
+  if (!passphrase) {
+    throw new ProfileError(`Profiles file ${filePath} exists but ODATAI_PROFILES_KEY is not set`);
+  }
+
+  try {
+    return decryptProfiles(JSON.parse(readFileSync(filePath, 'utf8')), passphrase);
+  } catch (error: any) {
+    throw new ProfileError(`Failed to decrypt profiles file ${filePath}: ${error.message}`);
+  }
+}
+
+function readProfileFromEnv(): CredentialProfile | null {
+  const env = process.env;
+  // Passwordless users (e.g. a local 'default') only need a host
+  const hasClickHouse = !!env.CLICKHOUSE_HOST;
+  const hasKeys = !!(env.YOUTUBE_API_KEY || env.HUGGINGFACE_API_KEY || env.GOOGLE_API_KEY);
+  const hasChatCompletion = !!(env.CHAT_COMPLETION_BASE_URL && env.CHAT_COMPLETION_MODEL);
+  if (!hasClickHouse && !hasKeys && !hasChatCompletion) return null;
+
+  return {
+    id: 'default',
+    label: 'Default',
+    clickhouse: hasClickHouse ? {
+      host: env.CLICKHOUSE_HOST!,
+      username: env.CLICKHOUSE_USER || 'default',
+      password: env.CLICKHOUSE_PASSWORD || '',
+      database: env.CLICKHOUSE_DATABASE || 'default'
+    } : undefined,
+    apiKeys: {
+      youtube: env.YOUTUBE_API_KEY,
+      huggingFace: env.HUGGINGFACE_API_KEY,
+      google: env.GOOGLE_API_KEY,
+      chatCompletion: env.CHAT_COMPLETION_API_KEY
+    },
+    chatCompletion: hasChatCompletion ? {
+      baseUrl: env.CHAT_COMPLETION_BASE_URL!,
+      model: env.CHAT_COMPLETION_MODEL!
+    } : undefined
+  };
+}
+
+let cachedProfiles: CredentialProfile[] | null = null;
+
+export function loadProfiles(): CredentialProfile[] {
+  if (cachedProfiles) return cachedProfiles;
+
+  let profiles: CredentialProfile[] | null = null;
+
+  if (process.env.ODATAI_PROFILES) {
+    try {
+      profiles = JSON.parse(process.env.ODATAI_PROFILES);
+    } catch (error: any) {
+      throw new ProfileError(`ODATAI_PROFILES is not valid JSON: ${error.message}`);
+    }
+  } else {
+    profiles = readProfilesFromFile();
+  }
+
+  if (!profiles) {
+    const envProfile = readProfileFromEnv();
+    profiles = envProfile ? [envProfile] : [];
+  }
+
+  if (!Array.isArray(profiles) || profiles.some(profile => !profile || typeof profile.id !== 'string')) {
+    throw new ProfileError('Credential profiles must be an array of objects with a string id');
+  }
+
+  cachedProfiles = profiles;
+  return profiles;
+}
+
+// Resolve the profile a request asked for; without an ID the first profile is used
+export function getProfile(profileId?: unknown): CredentialProfile {
+  const profiles = loadProfiles();
+
+  if (profiles.length === 0) {
+    throw new ProfileError('No credential profiles are configured on the server');
+  }
+
+  if (profileId === undefined || profileId === null || profileId === '') {
+    return profiles[0];
+  }
+
+  const profile = profiles.find(p => p.id === profileId);
+  if (!profile) {
+    throw new ProfileError(`Unknown credential profile: ${String(profileId)}`);
+  }
+  return profile;
+}
+
+export function getClickHouseConfig(profileId?: unknown): ClickHouseConfig {
+  const profile = getProfile(profileId);
+  if (!profile.clickhouse || !profile.clickhouse.host) {
+    throw new ProfileError(`Profile "${profile.id}" has no ClickHouse connection configured`);
+  }
+  return { ...profile.clickhouse, password: profile.clickhouse.password || '' };
+}
+
+// API keys are optional (e.g. HuggingFace works unauthenticated), so a server
+// without any profiles simply has no keys rather than being an error
+export function getApiKey(profileId: unknown, name: keyof ProfileApiKeys): string | undefined {
+  if (!profileId && loadProfiles().length === 0) return undefined;
+  const key = getProfile(profileId).apiKeys?.[name];
+  return key && key.trim() ? key.trim() : undefined;
+}
+
+export function toPublicProfile(profile: CredentialProfile): PublicProfile {
+  return {
+    id: profile.id,
+    label: profile.label || profile.id,
+    database: profile.clickhouse?.database || (profile.clickhouse ? 'default' : null),
+    hasDatabase: !!profile.clickhouse?.host,
+    apiKeys: {
+      youtube: !!profile.apiKeys?.youtube,
+      huggingFace: !!profile.apiKeys?.huggingFace,
+      google: !!profile.apiKeys?.google,
+      chatCompletion: !!profile.apiKeys?.chatCompletion
+    },
+    chatCompletionModel: profile.chatCompletion?.baseUrl ? profile.chatCompletion.model || null : null
+  };
+}
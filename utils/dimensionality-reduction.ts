@@ -1,4 +1,6 @@
-// Simple PCA implementation for dimensionality reduction
+// Dimensionality reduction (PCA, UMAP, t-SNE) for the cluster visualizations
+import { DEFAULT_SEED, createRandom, randomGaussian, randomInt } from './random';
+
 export interface Point2D {
   x: number;
   y: number;
@@ -18,127 +20,783 @@ export interface ProcessedVideo {
   position: Point2D | Point3D;
 }
 
-// Simple PCA implementation to reduce high-dimensional vectors to 2D
-export function performPCA(vectors: number[][]): Point2D[] {
-  if (vectors.length === 0) return [];
+export interface PCAResult {
+  projections: number[][]; // one row per input vector, one column per component
+  components: number[][]; // unit principal axes, strongest first
+  explainedVariance: number[];
+  explainedVarianceRatio: number[];
+}
+
+export interface PCAOptions {
+  maxIterations?: number;
+  tolerance?: number;
+}
 
+function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// Remove the projections onto the axes found so far (deflation)
+function orthogonalize(vector: Float64Array, basis: Float64Array[]): void {
+  for (const axis of basis) {
+    const projection = dot(vector, axis);
+    for (let j = 0; j < vector.length; j++) vector[j] -= projection * axis[j];
+  }
+}
+
+function normalize(vector: Float64Array): number {
+  const norm = Math.sqrt(dot(vector, vector));
+  if (norm > 0) {
+    for (let j = 0; j < vector.length; j++) vector[j] /= norm;
+  }
+  return norm;
+}
+
+// PCA by power iteration with deflation. The covariance matrix is never built:
+// C·v is computed as Xcᵀ(Xc·v) / (n - 1), and the centering is folded into the
+// dot products, so memory stays O(n + d) on top of the input even for 3072-D vectors.
+export function computePCA(vectors: number[][], numComponents: number, options: PCAOptions = {}): PCAResult {
   const numSamples = vectors.length;
-  const numFeatures = vectors[0].length;
+  const numFeatures = numSamples > 0 ? vectors[0].length : 0;
+  const count = Math.min(numComponents, numFeatures);
+  const maxIterations = options.maxIterations ?? 100;
+  const tolerance = options.tolerance ?? 1e-6;
+  const denominator = Math.max(numSamples - 1, 1);
+
+  if (count === 0) {
+    return { projections: vectors.map(() => []), components: [], explainedVariance: [], explainedVarianceRatio: [] };
+  }
 
-  // Step 1: Calculate mean vector
-  const mean = new Array(numFeatures).fill(0);
+  const mean = new Float64Array(numFeatures);
   for (const vector of vectors) {
-    for (let i = 0; i < numFeatures; i++) {
-      mean[i] += vector[i];
-    }
+    for (let j = 0; j < numFeatures; j++) mean[j] += vector[j];
   }
-  for (let i = 0; i < numFeatures; i++) {
-    mean[i] /= numSamples;
+  for (let j = 0; j < numFeatures; j++) mean[j] /= numSamples;
+
+  // Total variance (trace of the covariance matrix) for the explained-variance ratios
+  let totalVariance = 0;
+  for (const vector of vectors) {
+    for (let j = 0; j < numFeatures; j++) {
+      const centered = vector[j] - mean[j];
+      totalVariance += centered * centered;
+    }
   }
+  totalVariance /= denominator;
 
-  // Step 2: Center the data (subtract mean)
-  const centeredData = vectors.map(vector =>
-    vector.map((value, i) => value - mean[i])
-  );
+  const components: Float64Array[] = [];
+  const explainedVariance: number[] = [];
+  const scores = new Float64Array(numSamples);
 
-  // Step 3: Calculate covariance matrix
-  const covarianceMatrix = new Array(numFeatures).fill(0).map(() => new Array(numFeatures).fill(0));
-  for (let i = 0; i < numFeatures; i++) {
+  for (let c = 0; c < count; c++) {
+    // Deterministic start vector so layouts are stable between renders
+    let axis = new Float64Array(numFeatures);
     for (let j = 0; j < numFeatures; j++) {
-      let sum = 0;
-      for (const dataPoint of centeredData) {
-        sum += dataPoint[i] * dataPoint[j];
+      axis[j] = Math.sin((j + 1) * 12.9898 + (c + 1) * 78.233);
+    }
+    orthogonalize(axis, components);
+    normalize(axis);
+
+    let eigenvalue = 0;
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      // scores = Xc · axis
+      const meanProjection = dot(mean, axis);
+      let scoreSum = 0;
+      for (let i = 0; i < numSamples; i++) {
+        scores[i] = dot(vectors[i], axis) - meanProjection;
+        scoreSum += scores[i];
+      }
+
+      // next = Xcᵀ · scores / (n - 1)
+      const next = new Float64Array(numFeatures);
+      for (let i = 0; i < numSamples; i++) {
+        const vector = vectors[i];
+        const score = scores[i];
+        for (let j = 0; j < numFeatures; j++) next[j] += score * vector[j];
       }
-      covarianceMatrix[i][j] = sum / (numSamples - 1);
+      for (let j = 0; j < numFeatures; j++) {
+        next[j] = (next[j] - mean[j] * scoreSum) / denominator;
+      }
+
+      orthogonalize(next, components);
+      eigenvalue = normalize(next);
+
+      // No variance left in the remaining directions
+      if (eigenvalue === 0) break;
+
+      const change = 1 - Math.abs(dot(next, axis));
+      axis = next;
+      if (change < tolerance) break;
+    }
+
+    // Fix the sign so the largest loading is positive and layouts don't flip
+    let largest = 0;
+    for (let j = 0; j < numFeatures; j++) {
+      if (Math.abs(axis[j]) > Math.abs(largest)) largest = axis[j];
     }
+    if (largest < 0) {
+      for (let j = 0; j < numFeatures; j++) axis[j] = -axis[j];
+    }
+
+    components.push(axis);
+    explainedVariance.push(eigenvalue);
   }
 
-  // Step 4: Simple approximation - use first two features as principal components
-  // For a more accurate PCA, we'd need eigenvalue decomposition
-  // This is a simplified version that works reasonably well for visualization
-  const projectedPoints: Point2D[] = centeredData.map(dataPoint => ({
-    x: dataPoint[0] || 0,
-    y: dataPoint[1] || 0
-  }));
+  const componentMeans = components.map(axis => dot(mean, axis));
+  const projections = vectors.map(vector =>
+    components.map((axis, c) => dot(vector, axis) - componentMeans[c])
+  );
+
+  return {
+    projections,
+    components: components.map(axis => Array.from(axis)),
+    explainedVariance,
+    explainedVarianceRatio: explainedVariance.map(variance => totalVariance > 0 ? variance / totalVariance : 0)
+  };
+}
 
-  // Normalize to reasonable canvas coordinates
-  const xValues = projectedPoints.map(p => p.x);
-  const yValues = projectedPoints.map(p => p.y);
+// Fit projections into a 2D canvas. Both axes share one scale so distances in
+// the layout stay proportional to distances in PCA space.
+export function scaleProjections2D(
+  projections: number[][],
+  size: { width: number; height: number; padding?: number } = { width: 1000, height: 800, padding: 100 }
+): Point2D[] {
+  if (projections.length === 0) return [];
+
+  const padding = size.padding ?? 100;
+  const xValues = projections.map(p => p[0] || 0);
+  const yValues = projections.map(p => p[1] || 0);
   const xMin = Math.min(...xValues);
   const xMax = Math.max(...xValues);
   const yMin = Math.min(...yValues);
   const yMax = Math.max(...yValues);
 
-  const xRange = xMax - xMin || 1;
-  const yRange = yMax - yMin || 1;
+  const width = size.width - 2 * padding;
+  const height = size.height - 2 * padding;
+  const scale = Math.min(width / (xMax - xMin || 1), height / (yMax - yMin || 1));
+  const xOffset = padding + (width - (xMax - xMin) * scale) / 2;
+  const yOffset = padding + (height - (yMax - yMin) * scale) / 2;
+
+  return projections.map((_, i) => ({
+    x: (xValues[i] - xMin) * scale + xOffset,
+    y: (yValues[i] - yMin) * scale + yOffset
+  }));
+}
+
+// Fit projections into a cube of the given edge length centered on the origin
+export function scaleProjections3D(projections: number[][], scaleSize: number = 400): Point3D[] {
+  if (projections.length === 0) return [];
+
+  const axes = [0, 1, 2].map(c => projections.map(p => p[c] || 0));
+  const mins = axes.map(values => Math.min(...values));
+  const maxs = axes.map(values => Math.max(...values));
+  const range = Math.max(...maxs.map((max, c) => max - mins[c])) || 1;
+  const centers = maxs.map((max, c) => (max + mins[c]) / 2);
 
-  return projectedPoints.map(point => ({
-    x: ((point.x - xMin) / xRange) * 800 + 100, // Scale to canvas size with padding
-    y: ((point.y - yMin) / yRange) * 600 + 100
+  return projections.map((_, i) => ({
+    x: ((axes[0][i] - centers[0]) / range) * scaleSize,
+    y: ((axes[1][i] - centers[1]) / range) * scaleSize,
+    z: ((axes[2][i] - centers[2]) / range) * scaleSize
   }));
 }
 
-// Simple PCA implementation to reduce high-dimensional vectors to 3D
+// e.g. "PC1 41.2% · PC2 12.8%" for canvas captions
+export function formatExplainedVariance(ratios: number[]): string {
+  return ratios.map((ratio, i) => `PC${i + 1} ${(ratio * 100).toFixed(1)}%`).join(' · ');
+}
+
+// Reduce high-dimensional vectors to 2D canvas coordinates with the top two principal components
+export function performPCA(vectors: number[][], size?: { width: number; height: number; padding?: number }): Point2D[] {
+  return scaleProjections2D(computePCA(vectors, 2).projections, size);
+}
+
+// Reduce high-dimensional vectors to 3D coordinates with the top three principal components
 export function performPCA3D(vectors: number[][], canvasSize?: { width: number; height: number; depth?: number }): Point3D[] {
-  if (vectors.length === 0) return [];
+  const scaleSize = canvasSize ? Math.min(canvasSize.width, canvasSize.height) * 0.4 : 400;
+  return scaleProjections3D(computePCA(vectors, 3).projections, scaleSize);
+}
 
-  const numSamples = vectors.length;
-  const numFeatures = vectors[0].length;
+export type LayoutMethod = 'pca' | 'umap' | 'tsne';
 
-  // Step 1: Calculate mean vector
-  const mean = new Array(numFeatures).fill(0);
-  for (const vector of vectors) {
-    for (let i = 0; i < numFeatures; i++) {
-      mean[i] += vector[i];
+export const LAYOUT_METHODS: Array<{ id: LayoutMethod; label: string }> = [
+  { id: 'pca', label: 'PCA' },
+  { id: 'umap', label: 'UMAP' },
+  { id: 'tsne', label: 't-SNE' }
+];
+
+export interface LayoutOptions {
+  seed?: number;
+  perplexity?: number; // t-SNE effective neighbourhood size
+  nNeighbors?: number; // UMAP neighbourhood size
+  minDist?: number; // UMAP minimum distance between embedded points
+  iterations?: number; // t-SNE iterations / UMAP epochs
+  theta?: number; // Barnes-Hut accuracy, 0 = exact
+}
+
+export interface LayoutResult {
+  projections: number[][];
+  explainedVarianceRatio?: number[];
+}
+
+export type LayoutProgress = (progress: number, message: string) => void;
+
+// Unit-length copy of the vectors in one flat buffer, so euclidean distance
+// ranks neighbours the same way cosine similarity does
+function toUnitRows(vectors: number[][]): { data: Float64Array; dims: number } {
+  const dims = vectors[0]?.length || 0;
+  const data = new Float64Array(vectors.length * dims);
+
+  vectors.forEach((vector, i) => {
+    const norm = Math.sqrt(dot(vector, vector)) || 1;
+    for (let j = 0; j < dims; j++) data[i * dims + j] = vector[j] / norm;
+  });
+
+  return { data, dims };
+}
+
+// Exact k nearest neighbours by squared euclidean distance, closest first
+function nearestNeighbors(
+  vectors: number[][],
+  k: number,
+  onProgress?: LayoutProgress
+): { indices: Int32Array[]; distances: Float64Array[] } {
+  const n = vectors.length;
+  const { data, dims } = toUnitRows(vectors);
+  const indices: Int32Array[] = [];
+  const distances: Float64Array[] = [];
+  const reportEvery = Math.max(1, Math.floor(n / 20));
+
+  for (let i = 0; i < n; i++) {
+    const rowIndices = new Int32Array(k).fill(-1);
+    const rowDistances = new Float64Array(k).fill(Infinity);
+    const offsetI = i * dims;
+
+    for (let j = 0; j < n; j++) {
+      if (j === i) continue;
+      const offsetJ = j * dims;
+      let distance = 0;
+      for (let d = 0; d < dims; d++) {
+        const diff = data[offsetI + d] - data[offsetJ + d];
+        distance += diff * diff;
+      }
+      if (distance >= rowDistances[k - 1]) continue;
+
+      // Insertion into the sorted neighbour list
+      let position = k - 1;
+      while (position > 0 && rowDistances[position - 1] > distance) {
+        rowDistances[position] = rowDistances[position - 1];
+        rowIndices[position] = rowIndices[position - 1];
+        position--;
+      }
+      rowDistances[position] = distance;
+      rowIndices[position] = j;
+    }
+
+    indices.push(rowIndices);
+    distances.push(rowDistances);
+
+    if (onProgress && i % reportEvery === 0) {
+      onProgress(i / n, `Finding nearest neighbours (${i}/${n})...`);
     }
   }
-  for (let i = 0; i < numFeatures; i++) {
-    mean[i] /= numSamples;
+
+  return { indices, distances };
+}
+
+// Space-partitioning tree (quadtree in 2D, octree in 3D) for Barnes-Hut t-SNE
+interface SPTreeNode {
+  center: Float64Array;
+  halfWidth: number;
+  centerOfMass: Float64Array;
+  count: number;
+  point: number; // index of the single point held by a leaf, -1 otherwise
+  children: SPTreeNode[] | null;
+}
+
+function createSPTreeNode(center: Float64Array, halfWidth: number): SPTreeNode {
+  return { center, halfWidth, centerOfMass: new Float64Array(center.length), count: 0, point: -1, children: null };
+}
+
+function insertIntoSPTree(node: SPTreeNode, index: number, Y: Float64Array, dims: number, depth: number = 0): void {
+  // Running center of mass
+  node.count++;
+  for (let d = 0; d < dims; d++) {
+    node.centerOfMass[d] += (Y[index * dims + d] - node.centerOfMass[d]) / node.count;
   }
 
-  // Step 2: Center the data (subtract mean)
-  const centeredData = vectors.map(vector =>
-    vector.map((value, i) => value - mean[i])
-  );
+  if (node.count === 1) {
+    node.point = index;
+    return;
+  }
 
-  // Step 3: Simple approximation - use first three features as principal components
-  const projectedPoints: Point3D[] = centeredData.map(dataPoint => ({
-    x: dataPoint[0] || 0,
-    y: dataPoint[1] || 0,
-    z: dataPoint[2] || 0
-  }));
+  // Duplicate points (or a degenerate tree) stay lumped in one leaf
+  if (!node.children && depth > 48) return;
 
-  // Normalize to reasonable 3D space coordinates
-  const xValues = projectedPoints.map(p => p.x);
-  const yValues = projectedPoints.map(p => p.y);
-  const zValues = projectedPoints.map(p => p.z);
+  if (!node.children) {
+    node.children = [];
+    const childWidth = node.halfWidth / 2;
+    for (let c = 0; c < (1 << dims); c++) {
+      const center = new Float64Array(dims);
+      for (let d = 0; d < dims; d++) {
+        center[d] = node.center[d] + ((c >> d) & 1 ? childWidth : -childWidth);
+      }
+      node.children.push(createSPTreeNode(center, childWidth));
+    }
 
-  const xMin = Math.min(...xValues);
-  const xMax = Math.max(...xValues);
-  const yMin = Math.min(...yValues);
-  const yMax = Math.max(...yValues);
-  const zMin = Math.min(...zValues);
-  const zMax = Math.max(...zValues);
+    const existing = node.point;
+    node.point = -1;
+    insertIntoSPTree(node.children[childIndex(node, existing, Y, dims)], existing, Y, dims, depth + 1);
+  }
 
-  const xRange = xMax - xMin || 1;
-  const yRange = yMax - yMin || 1;
-  const zRange = zMax - zMin || 1;
+  insertIntoSPTree(node.children[childIndex(node, index, Y, dims)], index, Y, dims, depth + 1);
+}
 
-  // Scale to 3D space (centered around origin)
-  const scaleSize = canvasSize ? Math.min(canvasSize.width, canvasSize.height) * 0.4 : 400;
+function childIndex(node: SPTreeNode, index: number, Y: Float64Array, dims: number): number {
+  let child = 0;
+  for (let d = 0; d < dims; d++) {
+    if (Y[index * dims + d] > node.center[d]) child |= 1 << d;
+  }
+  return child;
+}
 
-  return projectedPoints.map(point => ({
-    x: ((point.x - xMin) / xRange - 0.5) * scaleSize,
-    y: ((point.y - yMin) / yRange - 0.5) * scaleSize,
-    z: ((point.z - zMin) / zRange - 0.5) * scaleSize
-  }));
+// Accumulates the unnormalized repulsive force on point i and its share of Z
+function computeRepulsion(
+  node: SPTreeNode,
+  i: number,
+  Y: Float64Array,
+  dims: number,
+  theta: number,
+  force: Float64Array
+): number {
+  if (node.count === 0 || (node.count === 1 && node.point === i)) return 0;
+
+  let distanceSq = 0;
+  for (let d = 0; d < dims; d++) {
+    const diff = Y[i * dims + d] - node.centerOfMass[d];
+    distanceSq += diff * diff;
+  }
+
+  if (!node.children || (2 * node.halfWidth) / Math.sqrt(distanceSq) < theta) {
+    const q = 1 / (1 + distanceSq);
+    const weight = node.count * q * q;
+    for (let d = 0; d < dims; d++) {
+      force[d] += weight * (Y[i * dims + d] - node.centerOfMass[d]);
+    }
+    return node.count * q;
+  }
+
+  let sumQ = 0;
+  for (const child of node.children) {
+    sumQ += computeRepulsion(child, i, Y, dims, theta, force);
+  }
+  return sumQ;
+}
+
+function buildSPTree(Y: Float64Array, n: number, dims: number): SPTreeNode {
+  const min = new Float64Array(dims).fill(Infinity);
+  const max = new Float64Array(dims).fill(-Infinity);
+  for (let i = 0; i < n; i++) {
+    for (let d = 0; d < dims; d++) {
+      min[d] = Math.min(min[d], Y[i * dims + d]);
+      max[d] = Math.max(max[d], Y[i * dims + d]);
+    }
+  }
+
+  const center = new Float64Array(dims);
+  let halfWidth = 0;
+  for (let d = 0; d < dims; d++) {
+    center[d] = (min[d] + max[d]) / 2;
+    halfWidth = Math.max(halfWidth, (max[d] - min[d]) / 2);
+  }
+
+  const root = createSPTreeNode(center, halfWidth + 1e-5);
+  for (let i = 0; i < n; i++) insertIntoSPTree(root, i, Y, dims);
+  return root;
+}
+
+// Barnes-Hut t-SNE (van der Maaten 2014) with sparse kNN input affinities
+export function runTSNE(
+  vectors: number[][],
+  nComponents: number = 2,
+  options: LayoutOptions = {},
+  onProgress?: LayoutProgress
+): number[][] {
+  const n = vectors.length;
+  const dims = nComponents;
+  if (n < 4) return computePCA(vectors, nComponents).projections;
+
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const perplexity = Math.max(2, Math.min(options.perplexity ?? 30, (n - 1) / 3));
+  const k = Math.min(n - 1, Math.floor(3 * perplexity));
+  const iterations = options.iterations ?? 1000;
+  const theta = options.theta ?? 0.5;
+
+  const report: LayoutProgress = (progress, message) => onProgress?.(progress, message);
+  const { indices, distances } = nearestNeighbors(vectors, k, (p, message) => report(p * 0.3, message));
+
+  // Conditional probabilities with a per-point bandwidth matching the perplexity
+  report(0.3, 'Calibrating perplexity...');
+  const targetEntropy = Math.log(perplexity);
+  const conditional: Float64Array[] = [];
+
+  for (let i = 0; i < n; i++) {
+    const row = distances[i];
+    const p = new Float64Array(k);
+    let beta = 1;
+    let betaMin = -Infinity;
+    let betaMax = Infinity;
+
+    for (let attempt = 0; attempt < 200; attempt++) {
+      let sumP = 0;
+      let weightedDistance = 0;
+      for (let j = 0; j < k; j++) {
+        p[j] = Math.exp(-(row[j] - row[0]) * beta);
+        sumP += p[j];
+        weightedDistance += (row[j] - row[0]) * p[j];
+      }
+      const entropy = Math.log(sumP) + (beta * weightedDistance) / sumP;
+      for (let j = 0; j < k; j++) p[j] /= sumP;
+
+      const difference = entropy - targetEntropy;
+      if (Math.abs(difference) < 1e-5) break;
+
+      if (difference > 0) {
+        betaMin = beta;
+        beta = betaMax === Infinity ? beta * 2 : (beta + betaMax) / 2;
+      } else {
+        betaMax = beta;
+        beta = betaMin === -Infinity ? beta / 2 : (beta + betaMin) / 2;
+      }
+    }
+
+    conditional.push(p);
+  }
+
+  // Symmetrize: p_ij = (p_j|i + p_i|j) / 2n, stored as a sparse edge list
+  const symmetric: Array<Map<number, number>> = Array.from({ length: n }, () => new Map());
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < k; j++) {
+      const neighbor = indices[i][j];
+      const value = conditional[i][j] / (2 * n);
+      symmetric[i].set(neighbor, (symmetric[i].get(neighbor) || 0) + value);
+      symmetric[neighbor].set(i, (symmetric[neighbor].get(i) || 0) + value);
+    }
+  }
+
+  const edgeFrom: number[] = [];
+  const edgeTo: number[] = [];
+  const edgeWeight: number[] = [];
+  symmetric.forEach((row, i) => {
+    row.forEach((value, j) => {
+      edgeFrom.push(i);
+      edgeTo.push(j);
+      edgeWeight.push(value);
+    });
+  });
+
+  // Gradient descent with momentum, gains and early exaggeration
+  const Y = new Float64Array(n * dims);
+  for (let i = 0; i < Y.length; i++) Y[i] = randomGaussian(random) * 1e-4;
+
+  const velocity = new Float64Array(n * dims);
+  const gains = new Float64Array(n * dims).fill(1);
+  const attractive = new Float64Array(n * dims);
+  const repulsive = new Float64Array(n * dims);
+  const force = new Float64Array(dims);
+  const exaggerationIterations = Math.min(250, Math.floor(iterations / 4));
+  const learningRate = Math.max(n / 12, 50);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const exaggeration = iteration < exaggerationIterations ? 12 : 1;
+    const momentum = iteration < exaggerationIterations ? 0.5 : 0.8;
+
+    attractive.fill(0);
+    for (let e = 0; e < edgeFrom.length; e++) {
+      const i = edgeFrom[e];
+      const j = edgeTo[e];
+      let distanceSq = 0;
+      for (let d = 0; d < dims; d++) {
+        const diff = Y[i * dims + d] - Y[j * dims + d];
+        distanceSq += diff * diff;
+      }
+      const weight = (exaggeration * edgeWeight[e]) / (1 + distanceSq);
+      for (let d = 0; d < dims; d++) {
+        attractive[i * dims + d] += weight * (Y[i * dims + d] - Y[j * dims + d]);
+      }
+    }
+
+    const tree = buildSPTree(Y, n, dims);
+    let sumQ = 0;
+    for (let i = 0; i < n; i++) {
+      force.fill(0);
+      sumQ += computeRepulsion(tree, i, Y, dims, theta, force);
+      for (let d = 0; d < dims; d++) repulsive[i * dims + d] = force[d];
+    }
+
+    for (let index = 0; index < n * dims; index++) {
+      const gradient = 4 * (attractive[index] - repulsive[index] / sumQ);
+      gains[index] = Math.sign(gradient) !== Math.sign(velocity[index])
+        ? gains[index] + 0.2
+        : Math.max(gains[index] * 0.8, 0.01);
+      velocity[index] = momentum * velocity[index] - learningRate * gains[index] * gradient;
+      Y[index] += velocity[index];
+    }
+
+    // Keep the embedding centered on the origin
+    for (let d = 0; d < dims; d++) {
+      let mean = 0;
+      for (let i = 0; i < n; i++) mean += Y[i * dims + d];
+      mean /= n;
+      for (let i = 0; i < n; i++) Y[i * dims + d] -= mean;
+    }
+
+    if (iteration % 25 === 0) {
+      report(0.35 + 0.65 * (iteration / iterations), `t-SNE iteration ${iteration}/${iterations}...`);
+    }
+  }
+
+  return Array.from({ length: n }, (_, i) => Array.from(Y.subarray(i * dims, (i + 1) * dims)));
+}
+
+// Fit the UMAP curve 1 / (1 + a·x^2b) to the target membership function for
+// min_dist / spread (Levenberg-Marquardt on two parameters)
+function findUMAPCurveParameters(spread: number, minDist: number): { a: number; b: number } {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 1; i <= 300; i++) {
+    const x = (i / 300) * spread * 3;
+    xs.push(x);
+    ys.push(x < minDist ? 1 : Math.exp(-(x - minDist) / spread));
+  }
+
+  const residuals = (a: number, b: number) => xs.map((x, i) => 1 / (1 + a * Math.pow(x, 2 * b)) - ys[i]);
+  const cost = (a: number, b: number) => residuals(a, b).reduce((sum, r) => sum + r * r, 0);
+
+  let a = 1;
+  let b = 1;
+  let lambda = 1e-3;
+  let currentCost = cost(a, b);
+
+  for (let iteration = 0; iteration < 200; iteration++) {
+    // Jacobian of the residuals with respect to (a, b)
+    let jaa = 0, jab = 0, jbb = 0, ga = 0, gb = 0;
+    const r = residuals(a, b);
+    xs.forEach((x, i) => {
+      const power = Math.pow(x, 2 * b);
+      const denominator = (1 + a * power) * (1 + a * power);
+      const da = -power / denominator;
+      const db = -(a * power * 2 * Math.log(x)) / denominator;
+      jaa += da * da;
+      jab += da * db;
+      jbb += db * db;
+      ga += da * r[i];
+      gb += db * r[i];
+    });
+
+    const maa = jaa * (1 + lambda);
+    const mbb = jbb * (1 + lambda);
+    const determinant = maa * mbb - jab * jab;
+    if (Math.abs(determinant) < 1e-18) break;
+
+    const stepA = -(mbb * ga - jab * gb) / determinant;
+    const stepB = -(maa * gb - jab * ga) / determinant;
+    const nextA = Math.max(a + stepA, 1e-3);
+    const nextB = Math.max(b + stepB, 1e-3);
+    const nextCost = cost(nextA, nextB);
+
+    if (nextCost < currentCost) {
+      const improvement = currentCost - nextCost;
+      a = nextA;
+      b = nextB;
+      currentCost = nextCost;
+      lambda /= 10;
+      if (improvement < 1e-12) break;
+    } else {
+      lambda *= 10;
+    }
+  }
+
+  return { a, b };
+}
+
+// UMAP (McInnes et al. 2018): fuzzy kNN graph + negative-sampling SGD, PCA initialized
+export function runUMAP(
+  vectors: number[][],
+  nComponents: number = 2,
+  options: LayoutOptions = {},
+  onProgress?: LayoutProgress
+): number[][] {
+  const n = vectors.length;
+  const dims = nComponents;
+  if (n < 4) return computePCA(vectors, nComponents).projections;
+
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const k = Math.max(2, Math.min(options.nNeighbors ?? 15, n - 1));
+  const minDist = options.minDist ?? 0.1;
+  const epochs = options.iterations ?? (n > 10000 ? 200 : 500);
+  const negativeSampleRate = 5;
+
+  const report: LayoutProgress = (progress, message) => onProgress?.(progress, message);
+  const knn = nearestNeighbors(vectors, k, (p, message) => report(p * 0.3, message));
+
+  // Smooth kNN distances: local connectivity rho and bandwidth sigma per point
+  report(0.3, 'Building fuzzy neighbour graph...');
+  const target = Math.log2(k);
+  const memberships: Array<Map<number, number>> = Array.from({ length: n }, () => new Map());
+
+  for (let i = 0; i < n; i++) {
+    const row = knn.distances[i].map(Math.sqrt);
+    const rho = row.find(distance => distance > 0) ?? 0;
+    let sigma = 1;
+    let low = 0;
+    let high = Infinity;
+
+    for (let attempt = 0; attempt < 64; attempt++) {
+      let sum = 0;
+      for (let j = 0; j < k; j++) sum += Math.exp(-Math.max(0, row[j] - rho) / sigma);
+      if (Math.abs(sum - target) < 1e-5) break;
+
+      if (sum > target) {
+        high = sigma;
+        sigma = (low + high) / 2;
+      } else {
+        low = sigma;
+        sigma = high === Infinity ? sigma * 2 : (low + high) / 2;
+      }
+    }
+
+    for (let j = 0; j < k; j++) {
+      memberships[i].set(knn.indices[i][j], Math.exp(-Math.max(0, row[j] - rho) / Math.max(sigma, 1e-3)));
+    }
+  }
+
+  // Fuzzy union: w_ij = a + b - a·b
+  const edgeFrom: number[] = [];
+  const edgeTo: number[] = [];
+  const edgeWeight: number[] = [];
+  const reverseNeighbors: number[][] = Array.from({ length: n }, () => []);
+  knn.indices.forEach((row, i) => row.forEach(j => reverseNeighbors[j].push(i)));
+
+  for (let i = 0; i < n; i++) {
+    const neighbors = new Set<number>([...Array.from(memberships[i].keys()), ...reverseNeighbors[i]]);
+    neighbors.forEach(j => {
+      const forward = memberships[i].get(j) || 0;
+      const backward = memberships[j].get(i) || 0;
+      edgeFrom.push(i);
+      edgeTo.push(j);
+      edgeWeight.push(forward + backward - forward * backward);
+    });
+  }
+
+  const maxWeight = Math.max(...edgeWeight);
+  const epochsPerSample = edgeWeight.map(weight => weight > maxWeight / epochs ? maxWeight / weight : -1);
+  const epochOfNextSample = epochsPerSample.slice();
+  const epochsPerNegativeSample = epochsPerSample.map(value => value / negativeSampleRate);
+  const epochOfNextNegativeSample = epochsPerNegativeSample.slice();
+
+  const { a, b } = findUMAPCurveParameters(1, minDist);
+
+  // Initialize from PCA, rescaled to a [0, 10] box with a little jitter
+  const initial = computePCA(vectors, dims).projections;
+  const embedding = new Float64Array(n * dims);
+  for (let d = 0; d < dims; d++) {
+    const column = initial.map(row => row[d] || 0);
+    const min = Math.min(...column);
+    const range = Math.max(...column) - min || 1;
+    for (let i = 0; i < n; i++) {
+      embedding[i * dims + d] = ((column[i] - min) / range) * 10 + randomGaussian(random) * 1e-4;
+    }
+  }
+
+  const clip = (value: number) => Math.max(-4, Math.min(4, value));
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const alpha = 1 - epoch / epochs;
+
+    for (let e = 0; e < edgeFrom.length; e++) {
+      if (epochsPerSample[e] < 0 || epochOfNextSample[e] > epoch) continue;
+
+      const i = edgeFrom[e];
+      const j = edgeTo[e];
+
+      let distanceSq = 0;
+      for (let d = 0; d < dims; d++) {
+        const diff = embedding[i * dims + d] - embedding[j * dims + d];
+        distanceSq += diff * diff;
+      }
+
+      if (distanceSq > 0) {
+        const coefficient = (-2 * a * b * Math.pow(distanceSq, b - 1)) / (a * Math.pow(distanceSq, b) + 1);
+        for (let d = 0; d < dims; d++) {
+          const gradient = clip(coefficient * (embedding[i * dims + d] - embedding[j * dims + d])) * alpha;
+          embedding[i * dims + d] += gradient;
+          embedding[j * dims + d] -= gradient;
+        }
+      }
+
+      epochOfNextSample[e] += epochsPerSample[e];
+
+      const negativeSamples = Math.floor((epoch - epochOfNextNegativeSample[e]) / epochsPerNegativeSample[e]);
+      for (let s = 0; s < negativeSamples; s++) {
+        const other = randomInt(random, n);
+        if (other === i) continue;
+
+        let otherDistanceSq = 0;
+        for (let d = 0; d < dims; d++) {
+          const diff = embedding[i * dims + d] - embedding[other * dims + d];
+          otherDistanceSq += diff * diff;
+        }
+
+        const coefficient = otherDistanceSq > 0
+          ? (2 * b) / ((0.001 + otherDistanceSq) * (a * Math.pow(otherDistanceSq, b) + 1))
+          : 0;
+        for (let d = 0; d < dims; d++) {
+          const gradient = coefficient > 0
+            ? clip(coefficient * (embedding[i * dims + d] - embedding[other * dims + d]))
+            : 4;
+          embedding[i * dims + d] += gradient * alpha;
+        }
+      }
+
+      epochOfNextNegativeSample[e] += negativeSamples * epochsPerNegativeSample[e];
+    }
+
+    if (epoch % 10 === 0) {
+      report(0.35 + 0.65 * (epoch / epochs), `UMAP epoch ${epoch}/${epochs}...`);
+    }
+  }
+
+  return Array.from({ length: n }, (_, i) => Array.from(embedding.subarray(i * dims, (i + 1) * dims)));
+}
+
+// Unscaled 2D/3D coordinates for any layout method; callers fit them to a canvas
+export function computeLayout(
+  method: LayoutMethod,
+  vectors: number[][],
+  nComponents: 2 | 3,
+  options: LayoutOptions = {},
+  onProgress?: LayoutProgress
+): LayoutResult {
+  if (method === 'umap') {
+    return { projections: runUMAP(vectors, nComponents, options, onProgress) };
+  }
+  if (method === 'tsne') {
+    return { projections: runTSNE(vectors, nComponents, options, onProgress) };
+  }
+
+  const pca = computePCA(vectors, nComponents);
+  return { projections: pca.projections, explainedVarianceRatio: pca.explainedVarianceRatio };
 }
 
 // Alternative: Simple random jittering around cluster centroids for better visualization
 export function positionByCluster(
   videos: { id: string; title: string; vector: number[]; clusterId: number }[],
-  clusterCount: number
+  clusterCount: number,
+  seed: number = DEFAULT_SEED
 ): ProcessedVideo[] {
+  const random = createRandom(seed);
   const canvasWidth = 1000;
   const canvasHeight = 700;
   const padding = 80;
@@ -159,8 +817,8 @@ export function positionByCluster(
 
     // Add random offset within cluster area
     const maxOffset = 60;
-    const offsetX = (Math.random() - 0.5) * maxOffset * 2;
-    const offsetY = (Math.random() - 0.5) * maxOffset * 2;
+    const offsetX = (random() - 0.5) * maxOffset * 2;
+    const offsetY = (random() - 0.5) * maxOffset * 2;
 
     return {
       id: video.id,
@@ -0,0 +1,33 @@
+// Distance metrics shared by the clustering algorithms
+export type DistanceMetric = 'euclidean' | 'cosine';
+
+export function euclideanDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum);
+}
+
+// 1 - cosine similarity, in [0, 2]; zero vectors are treated as unrelated
+export function cosineDistance(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 1;
+  return 1 - dot / Math.sqrt(normA * normB);
+}
+
+export function getDistance(metric: DistanceMetric = 'euclidean'): (a: number[], b: number[]) => number {
+  return metric === 'cosine' ? cosineDistance : euclideanDistance;
+}
+
+// Unit-length copy; zero vectors are returned unchanged
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector.slice() : vector.map(value => value / norm);
+}
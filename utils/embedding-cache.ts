@@ -0,0 +1,105 @@
+// Content-addressed embedding cache
+// Vectors are stored in ClickHouse keyed by sha256(model, dimensions, task type
+// where the provider has one, normalized text), so re-running an analysis on
+// titles that were embedded before costs no API calls. embedTexts consults the
+// cache and only sends misses upstream.
+import { createHash } from 'crypto';
+import { Database, connectDatabase } from './clickhouse';
+import { getProfile } from './credential-profiles';
+import { getMigrationStatus } from './schema-migrations';
+import embeddingCacheMigration from './migrations/003_embedding_cache';
+
+export interface EmbeddingCacheEntry {
+  key: string;
+  model: string;
+  dimensions: number;
+  text: string;
+  embedding: number[];
+}
+
+export interface EmbeddingCache {
+  getMany: (keys: string[]) => Promise<Map<string, number[]>>;
+  setMany: (entries: EmbeddingCacheEntry[]) => Promise<void>;
+}
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Keys go into the query string, so lookups are split to keep URLs short
+const LOOKUP_CHUNK_SIZE = 500;
+
+// Whitespace and Unicode compatibility forms do not change what a title means
+export function normalizeEmbeddingText(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+// Hash of model, dimensions, optional task type and normalized text
+export function embeddingCacheKey(model: string, dimensions: number, text: string, taskType?: string): string {
+  return createHash('sha256')
+    .update(`${model}\u0000${dimensions}\u0000${taskType ? `${taskType}\u0000` : ''}${normalizeEmbeddingText(text)}`)
+    .digest('hex');
+}
+
+export function clickHouseEmbeddingCache(db: Database): EmbeddingCache {
+  return {
+    async getMany(keys: string[]): Promise<Map<string, number[]>> {
+      const found = new Map<string, number[]>();
+
+      for (let i = 0; i < keys.length; i += LOOKUP_CHUNK_SIZE) {
+        const rows = await db.query<{ key: string; embedding: number[] }>(`
+          SELECT key, any(embedding) AS embedding
+          FROM ${db.table('embedding_cache')}
+          WHERE key IN {keys:Array(String)}
+          GROUP BY key
+        `, { keys: keys.slice(i, i + LOOKUP_CHUNK_SIZE) });
+
+        rows.forEach(row => found.set(row.key, row.embedding));
+      }
+
+      return found;
+    },
+
+    async setMany(entries: EmbeddingCacheEntry[]): Promise<void> {
+      await db.insert('embedding_cache', entries.map(entry => ({
+        ...entry,
+        text: normalizeEmbeddingText(entry.text)
+      })));
+    }
+  };
+}
+
+// Open the cache for a profile's database. Returns null (embeddings are simply
+// not cached) when the profile has no database or the cache table is missing.
+export async function openEmbeddingCache(
+  profileId: unknown
+): Promise<{ cache: EmbeddingCache; close: () => Promise<void> } | null> {
+  let db: Database;
+  try {
+    const profile = getProfile(profileId);
+    if (!profile.clickhouse?.host) return null;
+    db = connectDatabase(profile.clickhouse);
+  } catch (error: any) {
+    console.warn(`[EMBEDDING CACHE] Disabled: ${error.message}`);
+    return null;
+  }
+
+  try {
+    const status = await getMigrationStatus(db);
+    if (!status.applied.some(migration => migration.version === embeddingCacheMigration.version)) {
+      console.warn('[EMBEDDING CACHE] Disabled: run the "migrate" action to create the embedding_cache table');
+      await db.close();
+      return null;
+    }
+  } catch (error: any) {
+    console.warn(`[EMBEDDING CACHE] Disabled: ${error.message}`);
+    await db.close();
+    return null;
+  }
+
+  return {
+    cache: clickHouseEmbeddingCache(db),
+    close: () => db.close()
+  };
+}
@@ -0,0 +1,308 @@
+// Embedding providers
+// Every embedding backend is wrapped in the same EmbeddingProvider shape and
+// registered by ID. Routes resolve a provider by name and call embedTexts, so a
+// new backend only needs a registerEmbeddingProvider call here.
+import { SENTENCE_TRANSFORMER_MODELS, getSentenceEmbeddings } from './sentence-transformers';
+import { GoogleTaskType, getGoogleEmbeddings } from './google-embeddings';
+import { LOCAL_EMBEDDING_MODELS, getLocalEmbeddings } from './local-embeddings';
+import { Word2VecConfig, textToVector } from './word2vec';
+import { EmbeddingCache, EmbeddingCacheStats, embeddingCacheKey } from './embedding-cache';
+import { ClusteringCancelledError } from './clustering-pool';
+
+export interface EmbeddingRateLimit {
+  maxBatchSize: number; // texts per embedBatch call
+  batchDelayMs: number; // pause between consecutive calls
+}
+
+export interface EmbedOptions {
+  apiKey?: string;
+  word2vec?: Partial<Word2VecConfig>; // preprocessing options, word2vec provider only
+  taskType?: GoogleTaskType; // overrides the provider's defaultTaskType
+}
+
+export interface EmbeddingProvider {
+  id: string;
+  label: string;
+  model: string;
+  dimensions: number;
+  apiKey?: 'huggingFace' | 'google'; // profile key the provider authenticates with
+  apiKeyRequired: boolean;
+  cacheable: boolean; // deterministic output that is worth storing in the embedding cache
+  // Providers whose vectors depend on the task (Google); the task type is part
+  // of the cache key
+  defaultTaskType?: GoogleTaskType;
+  rateLimit: EmbeddingRateLimit;
+  embedBatch: (texts: string[], options: EmbedOptions) => Promise<number[][]>;
+}
+
+export class EmbeddingProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+  }
+}
+
+const registry = new Map<string, EmbeddingProvider>();
+
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  registry.set(provider.id, provider);
+}
+
+export function listEmbeddingProviders(): EmbeddingProvider[] {
+  return Array.from(registry.values());
+}
+
+export function getEmbeddingProvider(id: unknown): EmbeddingProvider {
+  const provider = typeof id === 'string' ? registry.get(id) : undefined;
+  if (!provider) {
+    throw new EmbeddingProviderError(`Unknown embedding provider: ${JSON.stringify(id)}`);
+  }
+  return provider;
+}
+
+// Map the approach / embeddingType settings the UI sends onto a provider ID
+export function embeddingProviderIdFor(config: {
+  approach?: string;
+  embeddingType?: string;
+  model?: string;
+  dimensions?: number;
+}): string {
+  const approach = config.approach || (config.embeddingType === 'huggingface' ? 'sentence-transformers' : config.embeddingType);
+
+  switch (approach) {
+    case 'sentence-transformers':
+      return `huggingface:${config.model || 'BAAI/bge-small-en-v1.5'}`;
+    case 'local-sentence-transformers':
+      return `local:${config.model || 'BAAI/bge-small-en-v1.5'}`;
+    case 'google-gemini':
+      return 'google:text-embedding-004';
+    case 'google-gemini-1536':
+      return 'google:gemini-embedding-001:1536';
+    case 'google-gemini-3072':
+      return 'google:gemini-embedding-001:3072';
+    case 'google':
+      // The embedding generator picks Google models by target dimensions
+      return config.dimensions === 768 ? 'google:text-embedding-004' : `google:gemini-embedding-001:${config.dimensions || 3072}`;
+    case 'pretrained':
+    case 'custom':
+    case 'hybrid':
+      return 'word2vec';
+    default:
+      return String(approach);
+  }
+}
+
+export function resolveEmbeddingProvider(config: Parameters<typeof embeddingProviderIdFor>[0]): EmbeddingProvider {
+  return getEmbeddingProvider(embeddingProviderIdFor(config));
+}
+
+// Rejects as soon as the signal aborts, so a cancelled run sends no further batches
+function pause(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ClusteringCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Embed any number of texts, batching and pacing requests per the provider's rate limit.
+// With a cache, cached vectors are reused and only distinct misses are sent upstream.
+export async function embedTexts(
+  provider: EmbeddingProvider,
+  texts: string[],
+  options: EmbedOptions & {
+    batchSize?: number;
+    batchDelayMs?: number;
+    cache?: EmbeddingCache | null;
+    onCacheLookup?: (stats: EmbeddingCacheStats) => void;
+    onProgress?: (batch: number, totalBatches: number, message: string) => void;
+    signal?: AbortSignal; // checked between batches and during the batch delay
+  } = {}
+): Promise<number[][]> {
+  const cache = provider.cacheable ? options.cache : null;
+  const taskType = provider.defaultTaskType ? options.taskType || provider.defaultTaskType : undefined;
+  const keys = cache ? texts.map(text => embeddingCacheKey(provider.model, provider.dimensions, text, taskType)) : [];
+  const embeddings: number[][] = new Array(texts.length);
+
+  // Indices of the texts that still need embedding, one per distinct key
+  let pending = texts.map((_, index) => index);
+  const duplicates = new Map<number, number[]>();
+
+  if (cache) {
+    let cached = new Map<string, number[]>();
+    try {
+      cached = await cache.getMany(Array.from(new Set(keys)));
+    } catch (error: any) {
+      console.warn(`[EMBEDDING CACHE] Lookup failed, embedding everything: ${error.message}`);
+    }
+
+    const firstIndexForKey = new Map<string, number>();
+    pending = [];
+    texts.forEach((_, index) => {
+      const hit = cached.get(keys[index]);
+      if (hit) {
+        embeddings[index] = hit;
+      } else if (firstIndexForKey.has(keys[index])) {
+        const first = firstIndexForKey.get(keys[index])!;
+        duplicates.set(first, [...(duplicates.get(first) || []), index]);
+      } else {
+        firstIndexForKey.set(keys[index], index);
+        pending.push(index);
+      }
+    });
+
+    const hits = texts.length - pending.length - Array.from(duplicates.values()).reduce((sum, list) => sum + list.length, 0);
+    console.log(`[EMBEDDING CACHE] ${provider.model}: ${hits} hits, ${texts.length - hits} misses`);
+    options.onCacheLookup?.({ hits, misses: texts.length - hits });
+  }
+
+  if (pending.length > 0 && provider.apiKeyRequired && !options.apiKey) {
+    throw new EmbeddingProviderError(`${provider.label} needs a ${provider.apiKey} API key in the selected credential profile`);
+  }
+
+  const batchSize = Math.max(1, Math.min(options.batchSize || provider.rateLimit.maxBatchSize, pending.length));
+  const batchDelay = options.batchDelayMs ?? provider.rateLimit.batchDelayMs;
+  const totalBatches = Math.ceil(pending.length / batchSize);
+
+  console.log(`[EMBEDDINGS] ${provider.id}: ${pending.length} texts in ${totalBatches} batches of ${batchSize}`);
+
+  for (let i = 0; i < pending.length; i += batchSize) {
+    if (options.signal?.aborted) throw new ClusteringCancelledError();
+    const batchNumber = Math.floor(i / batchSize) + 1;
+    const batchIndices = pending.slice(i, i + batchSize);
+    const batch = batchIndices.map(index => texts[index]);
+
+    options.onProgress?.(
+      batchNumber,
+      totalBatches,
+      `Processing batch ${batchNumber}/${totalBatches}: Generating ${provider.label} embeddings for ${batch.length} videos (${i + batch.length}/${pending.length} uncached)...`
+    );
+
+    const batchEmbeddings = await provider.embedBatch(batch, { ...options, taskType });
+    if (batchEmbeddings.length !== batch.length) {
+      throw new EmbeddingProviderError(`${provider.label} returned ${batchEmbeddings.length} embeddings for ${batch.length} texts`);
+    }
+
+    batchIndices.forEach((index, position) => {
+      embeddings[index] = batchEmbeddings[position];
+      duplicates.get(index)?.forEach(duplicate => { embeddings[duplicate] = batchEmbeddings[position]; });
+    });
+
+    // Store each batch as it arrives so a failed run still warms the cache
+    if (cache) {
+      try {
+        await cache.setMany(batchIndices.map((index, position) => ({
+          key: keys[index],
+          model: provider.model,
+          dimensions: provider.dimensions,
+          text: texts[index],
+          embedding: batchEmbeddings[position]
+        })));
+      } catch (error: any) {
+        console.warn(`[EMBEDDING CACHE] Failed to store batch ${batchNumber}: ${error.message}`);
+      }
+    }
+
+    if (i + batchSize < pending.length && batchDelay > 0) {
+      await pause(batchDelay, options.signal);
+    }
+  }
+
+  const actualDim = embeddings[0]?.length || 0;
+  if (actualDim !== provider.dimensions) {
+    console.warn(`Warning: Expected ${provider.dimensions} dimensions from ${provider.id}, got ${actualDim}`);
+  }
+
+  return embeddings;
+}
+
+// Hugging Face Inference API, one provider per sentence transformer model
+for (const info of Object.values(SENTENCE_TRANSFORMER_MODELS)) {
+  const isLargerModel = info.name.includes('bge-base') || info.name.includes('bge-large');
+
+  registerEmbeddingProvider({
+    id: `huggingface:${info.name}`,
+    label: `Hugging Face ${info.name}`,
+    model: info.name,
+    dimensions: info.dimensions,
+    apiKey: 'huggingFace',
+    apiKeyRequired: false,
+    cacheable: true,
+    rateLimit: isLargerModel
+      ? { maxBatchSize: 12, batchDelayMs: 700 }
+      : { maxBatchSize: 40, batchDelayMs: 400 },
+    embedBatch: (texts, { apiKey }) => getSentenceEmbeddings(texts, info.name, apiKey)
+  });
+}
+
+// In-process ONNX models read from local disk
+for (const info of Object.values(LOCAL_EMBEDDING_MODELS)) {
+  registerEmbeddingProvider({
+    id: `local:${info.name}`,
+    label: `Local ${info.name}`,
+    model: info.name,
+    dimensions: info.dimensions,
+    apiKeyRequired: false,
+    cacheable: true,
+    rateLimit: { maxBatchSize: 32, batchDelayMs: 0 },
+    embedBatch: texts => getLocalEmbeddings(texts, info.name)
+  });
+}
+
+// Google Gemini embedding models
+const GOOGLE_MODELS = [
+  { id: 'google:text-embedding-004', model: 'text-embedding-004', dimensions: 768 },
+  { id: 'google:gemini-embedding-001:1536', model: 'gemini-embedding-001', dimensions: 1536 },
+  { id: 'google:gemini-embedding-001:3072', model: 'gemini-embedding-001', dimensions: 3072 }
+];
+
+for (const { id, model, dimensions } of GOOGLE_MODELS) {
+  registerEmbeddingProvider({
+    id,
+    label: `Google Gemini ${model} (${dimensions}D)`,
+    model,
+    dimensions,
+    apiKey: 'google',
+    apiKeyRequired: true,
+    cacheable: true,
+    defaultTaskType: 'SEMANTIC_SIMILARITY',
+    rateLimit: { maxBatchSize: 25, batchDelayMs: 1000 },
+    embedBatch: (texts, { apiKey, taskType }) => getGoogleEmbeddings(texts, {
+      apiKey: apiKey!,
+      model,
+      dimensions,
+      taskType
+    })
+  });
+}
+
+// Local word2vec averaging - no network, so no batching or pacing needed
+const DEFAULT_WORD2VEC_CONFIG: Word2VecConfig = {
+  approach: 'pretrained',
+  dimensions: 8,
+  aggregation: 'mean',
+  removeStopwords: true,
+  stemWords: false,
+  lowercase: true,
+  handleUnknown: false
+};
+
+registerEmbeddingProvider({
+  id: 'word2vec',
+  label: 'Word2Vec',
+  model: 'word2vec-pretrained',
+  dimensions: 8,
+  apiKeyRequired: false,
+  cacheable: false,
+  rateLimit: { maxBatchSize: 1000, batchDelayMs: 0 },
+  embedBatch: async (texts, { word2vec }) => {
+    const config = { ...DEFAULT_WORD2VEC_CONFIG, ...word2vec };
+    return texts.map(text => textToVector(text, config).vector);
+  }
+});
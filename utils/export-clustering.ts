@@ -4,6 +4,7 @@ export interface ClusterExportData {
   title: string;
   clusterId: number;
   clusterSize: number;
+  clusterName: string;
   canvasX: number;
   canvasY: number;
   distanceFromCentroid: number;
@@ -25,23 +26,26 @@ export function generateExportData(
   videoShapes: any[]
 ): ClusterExportData[] {
   const exportData: ClusterExportData[] = [];
+  const videoIds = new Set(videos.map(video => video.id));
+  const shapesById = new Map(videoShapes.map(shape => [shape.id, shape]));
 
   // Process each cluster
   clusteringResults.clusters.forEach((cluster: any[], clusterIndex: number) => {
     const clusterSummary = clusterSummaries[clusterIndex];
     const topWords = clusterSummary?.topWords?.join(', ') || '';
+    const clusterName = clusterSummary?.name || '';
 
     cluster.forEach((clusterItem: any) => {
-      // Find matching video and shape
-      const matchingVideo = videos.find(v => v.title === clusterItem.title);
-      const matchingShape = videoShapes.find(s => s.title === clusterItem.title);
+      // Find the matching shape by video ID
+      const matchingShape = clusterItem.videoId ? shapesById.get(clusterItem.videoId) : undefined;
 
-      if (matchingVideo && matchingShape) {
+      if (matchingShape && videoIds.has(clusterItem.videoId)) {
         exportData.push({
-          videoId: matchingVideo.id,
+          videoId: clusterItem.videoId,
           title: clusterItem.title,
           clusterId: clusterIndex,
           clusterSize: cluster.length,
+          clusterName,
           canvasX: Math.round(matchingShape.position.x * 100) / 100, // 2 decimal places
           canvasY: Math.round(matchingShape.position.y * 100) / 100,
           distanceFromCentroid: Math.round(clusterItem.distance * 1000) / 1000, // 3 decimal places
@@ -77,6 +81,7 @@ export function convertToCSV(data: ClusterExportData[]): string {
     'Title',
     'Cluster ID',
     'Cluster Size',
+    'Cluster Name',
     'Canvas X',
     'Canvas Y',
     'Distance from Centroid',
@@ -106,6 +111,7 @@ export function convertToCSV(data: ClusterExportData[]): string {
       escapeCSV(row.title),
       escapeCSV(row.clusterId),
       escapeCSV(row.clusterSize),
+      escapeCSV(row.clusterName),
       escapeCSV(row.canvasX),
       escapeCSV(row.canvasY),
       escapeCSV(row.distanceFromCentroid),
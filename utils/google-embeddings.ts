@@ -1,11 +1,13 @@
 // Google Gemini Embeddings API implementation
 // Much better than BGE Large - 3072 dimensions vs 1024!
 
+export type GoogleTaskType = 'RETRIEVAL_QUERY' | 'RETRIEVAL_DOCUMENT' | 'SEMANTIC_SIMILARITY' | 'CLASSIFICATION' | 'CLUSTERING';
+
 export interface GoogleEmbeddingConfig {
   apiKey: string;
   model?: string;
   dimensions?: number;
-  taskType?: 'RETRIEVAL_QUERY' | 'RETRIEVAL_DOCUMENT' | 'SEMANTIC_SIMILARITY' | 'CLASSIFICATION' | 'CLUSTERING';
+  taskType?: GoogleTaskType;
 }
 
 // Call Google Gemini API to get embeddings
@@ -14,11 +16,11 @@ export async function getGoogleEmbeddings(
   config: GoogleEmbeddingConfig,
   retryCount: number = 0
 ): Promise<number[][]> {
-  // Use the correct model based on desired dimensions
-  const modelName = config.dimensions === 3072 ? 'gemini-embedding-001' : 'text-embedding-004';
-  const API_URL = config.dimensions === 3072
-    ? 'https://generativelanguage.googleapis.com/v1beta/models/gemini-embedding-001:batchEmbedContents'
-    : 'https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:batchEmbedContents';
+  // Use the requested model, or pick one based on desired dimensions
+  const modelName = config.model
+    ? config.model.replace(/^models\//, '')
+    : config.dimensions === 3072 ? 'gemini-embedding-001' : 'text-embedding-004';
+  const API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:batchEmbedContents`;
   const maxRetries = 3;
 
   console.log(`Calling Google Gemini API: ${texts.length} texts, dimensions: ${config.dimensions || 768}`);
@@ -30,7 +32,7 @@ export async function getGoogleEmbeddings(
     const requestBody = {
       requests: texts.map(text => {
         const request: any = {
-          model: config.model && config.model.startsWith('models/') ? config.model : `models/${modelName}`,
+          model: `models/${modelName}`,
           content: {
             parts: [{ text }]
           },
@@ -112,71 +114,3 @@ export async function getGoogleEmbeddings(
     throw error;
   }
 }
-
-// Process YouTube titles with Google Gemini embeddings
-export async function processYouTubeTitlesWithGoogle(
-  titles: string[],
-  config: GoogleEmbeddingConfig,
-  onProgress?: (batch: number, totalBatches: number, message: string) => void,
-  batchSize?: number,
-  batchDelay?: number
-): Promise<{
-  embeddings: number[][];
-  model: string;
-  dimensions: number;
-}> {
-  const model = config.model || 'text-embedding-004';
-  const dimensions = config.dimensions || 3072;
-
-  try {
-    console.log(`Getting Google embeddings for ${titles.length} titles using ${model}...`);
-
-    // Use configurable batch size or fallback to default
-    const effectiveBatchSize = Math.min(batchSize || 25, titles.length);
-    const totalBatches = Math.ceil(titles.length / effectiveBatchSize);
-    const allEmbeddings: number[][] = [];
-
-    for (let i = 0; i < titles.length; i += effectiveBatchSize) {
-      const batchNumber = Math.floor(i / effectiveBatchSize) + 1;
-      const batch = titles.slice(i, i + effectiveBatchSize);
-
-      if (onProgress) {
-        const startVideo = i + 1;
-        const endVideo = Math.min(i + effectiveBatchSize, titles.length);
-        onProgress(
-          batchNumber,
-          totalBatches,
-          `Processing batch ${batchNumber}/${totalBatches}: Generating Google embeddings for videos ${startVideo}-${endVideo}...`
-        );
-      }
-
-      try {
-        const batchEmbeddings = await getGoogleEmbeddings(batch, config);
-        allEmbeddings.push(...batchEmbeddings);
-      } catch (batchError: any) {
-        console.error(`Failed to process batch ${batchNumber}:`, batchError);
-        if (onProgress) {
-          onProgress(batchNumber, totalBatches, `Error in batch ${batchNumber}: ${batchError.message}`);
-        }
-        throw batchError;
-      }
-
-      // Configurable delay to respect Google rate limits
-      if (i + effectiveBatchSize < titles.length) {
-        await new Promise(resolve => setTimeout(resolve, batchDelay || 1000));
-      }
-    }
-
-    console.log(`Successfully generated ${allEmbeddings.length} Google embeddings`);
-
-    return {
-      embeddings: allEmbeddings,
-      model,
-      dimensions
-    };
-
-  } catch (error) {
-    console.error('Failed to get Google embeddings:', error);
-    throw new Error(`Failed to generate Google embeddings: ${error}. Please check your API key and try again.`);
-  }
-}
\ No newline at end of file
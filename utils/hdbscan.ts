@@ -0,0 +1,336 @@
+// HDBSCAN density-based clustering
+// Builds a minimum spanning tree over mutual reachability distances, condenses
+// the single-linkage hierarchy with minClusterSize and keeps the most stable
+// clusters (excess of mass). Points that never belong to a stable cluster are
+// labelled as noise instead of being forced into the nearest topic.
+import { DistanceMetric, getDistance } from './distance';
+
+export const NOISE_LABEL = -1;
+
+export interface HDBSCANOptions {
+  minClusterSize: number;
+  minSamples?: number; // neighbours for the core distance, defaults to minClusterSize
+  metric?: DistanceMetric;
+}
+
+export interface HDBSCANResult {
+  labels: number[]; // cluster index per point, NOISE_LABEL for noise
+  probabilities: number[]; // membership strength in [0, 1], 0 for noise
+  stabilities: number[]; // per cluster, indexed by label
+  clusterCount: number;
+}
+
+export type HDBSCANProgress = (progress: number, message: string) => void;
+
+type DistanceFunction = (a: number[], b: number[]) => number;
+
+// Distance to the minSamples-th nearest neighbour, counting the point itself
+function computeCoreDistances(
+  vectors: number[][],
+  distance: DistanceFunction,
+  minSamples: number,
+  onProgress?: HDBSCANProgress
+): Float64Array {
+  const n = vectors.length;
+  const rank = Math.min(minSamples, n) - 1;
+  const coreDistances = new Float64Array(n);
+  const row = new Float64Array(n);
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      row[j] = i === j ? 0 : distance(vectors[i], vectors[j]);
+    }
+    coreDistances[i] = row.slice().sort()[rank];
+
+    if (onProgress && i % 100 === 0) {
+      onProgress(0.4 * i / n, `Core distances: ${i}/${n} points`);
+    }
+  }
+
+  return coreDistances;
+}
+
+interface SpanningEdge {
+  from: number;
+  to: number;
+  weight: number;
+}
+
+// Prim's algorithm on the complete mutual reachability graph, O(n^2) without a distance matrix
+function mutualReachabilityMST(
+  vectors: number[][],
+  distance: DistanceFunction,
+  coreDistances: Float64Array,
+  onProgress?: HDBSCANProgress
+): SpanningEdge[] {
+  const n = vectors.length;
+  const inTree = new Uint8Array(n);
+  const bestDistance = new Float64Array(n).fill(Infinity);
+  const bestFrom = new Int32Array(n).fill(-1);
+  const edges: SpanningEdge[] = [];
+
+  let current = 0;
+  inTree[current] = 1;
+
+  for (let step = 0; step < n - 1; step++) {
+    let next = -1;
+    let nextDistance = Infinity;
+
+    for (let j = 0; j < n; j++) {
+      if (inTree[j]) continue;
+
+      const reachability = Math.max(
+        coreDistances[current],
+        coreDistances[j],
+        distance(vectors[current], vectors[j])
+      );
+      if (reachability < bestDistance[j]) {
+        bestDistance[j] = reachability;
+        bestFrom[j] = current;
+      }
+      if (bestDistance[j] < nextDistance) {
+        nextDistance = bestDistance[j];
+        next = j;
+      }
+    }
+
+    edges.push({ from: bestFrom[next], to: next, weight: nextDistance });
+    inTree[next] = 1;
+    current = next;
+
+    if (onProgress && step % 100 === 0) {
+      onProgress(0.4 + 0.5 * step / n, `Spanning tree: ${step}/${n} edges`);
+    }
+  }
+
+  return edges.sort((a, b) => a.weight - b.weight);
+}
+
+interface SingleLinkage {
+  left: Int32Array;
+  right: Int32Array;
+  distance: Float64Array;
+  size: Int32Array;
+}
+
+// Merge order of the sorted MST edges; node n + i is the i-th merge
+function singleLinkage(edges: SpanningEdge[], n: number): SingleLinkage {
+  const parent = new Int32Array(2 * n - 1);
+  for (let i = 0; i < parent.length; i++) parent[i] = i;
+
+  const find = (node: number): number => {
+    let root = node;
+    while (parent[root] !== root) root = parent[root];
+    while (parent[node] !== root) {
+      const next = parent[node];
+      parent[node] = root;
+      node = next;
+    }
+    return root;
+  };
+
+  const hierarchy: SingleLinkage = {
+    left: new Int32Array(n - 1),
+    right: new Int32Array(n - 1),
+    distance: new Float64Array(n - 1),
+    size: new Int32Array(n - 1)
+  };
+  // Duplicate titles merge at distance 0, which would make their lambda (1 / distance)
+  // infinite and let a handful of copies outweigh every real cluster. Floor it at the
+  // closest distinct pair instead.
+  const minDistance = edges.find(edge => edge.weight > 0)?.weight ?? 1;
+  const nodeSize = (node: number) => node < n ? 1 : hierarchy.size[node - n];
+
+  edges.forEach((edge, i) => {
+    const a = find(edge.from);
+    const b = find(edge.to);
+    hierarchy.left[i] = a;
+    hierarchy.right[i] = b;
+    hierarchy.distance[i] = Math.max(edge.weight, minDistance);
+    hierarchy.size[i] = nodeSize(a) + nodeSize(b);
+    parent[a] = n + i;
+    parent[b] = n + i;
+  });
+
+  return hierarchy;
+}
+
+interface CondensedEdge {
+  parent: number; // cluster label, n for the root
+  child: number; // point index (< n) or cluster label (>= n)
+  lambda: number;
+  childSize: number;
+}
+
+// Walk the hierarchy top-down; a split only creates new clusters when both
+// sides have at least minClusterSize points, otherwise the smaller side's
+// points fall out of the current cluster at that lambda.
+function condenseTree(hierarchy: SingleLinkage, n: number, minClusterSize: number): CondensedEdge[] {
+  const root = 2 * n - 2;
+  const nodeSize = (node: number) => node < n ? 1 : hierarchy.size[node - n];
+  const relabel = new Int32Array(2 * n - 1);
+  const condensed: CondensedEdge[] = [];
+  let nextLabel = n + 1;
+
+  const leavesOf = (node: number): number[] => {
+    const leaves: number[] = [];
+    const stack = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current < n) {
+        leaves.push(current);
+      } else {
+        stack.push(hierarchy.left[current - n], hierarchy.right[current - n]);
+      }
+    }
+    return leaves;
+  };
+
+  relabel[root] = n;
+  const stack = [root];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    const merge = node - n;
+    const left = hierarchy.left[merge];
+    const right = hierarchy.right[merge];
+    const lambda = 1 / hierarchy.distance[merge];
+    const parentLabel = relabel[node];
+    const leftBig = nodeSize(left) >= minClusterSize;
+    const rightBig = nodeSize(right) >= minClusterSize;
+
+    if (leftBig && rightBig) {
+      for (const child of [left, right]) {
+        relabel[child] = nextLabel++;
+        condensed.push({ parent: parentLabel, child: relabel[child], lambda, childSize: nodeSize(child) });
+        stack.push(child);
+      }
+    } else {
+      for (const child of [left, right]) {
+        if (child === left ? leftBig : rightBig) {
+          // The cluster carries on under its parent's label
+          relabel[child] = parentLabel;
+          stack.push(child);
+        } else {
+          leavesOf(child).forEach(point => {
+            condensed.push({ parent: parentLabel, child: point, lambda, childSize: 1 });
+          });
+        }
+      }
+    }
+  }
+
+  return condensed;
+}
+
+// Excess of mass: keep a cluster unless its descendants are more stable together
+function selectClusters(condensed: CondensedEdge[], n: number): {
+  selected: boolean[];
+  clusterParent: Int32Array;
+  stability: Float64Array;
+} {
+  const clusterCount = condensed.reduce((max, edge) => Math.max(max, edge.parent, edge.child), n) - n + 1;
+  const birth = new Float64Array(clusterCount);
+  const stability = new Float64Array(clusterCount);
+  const clusterParent = new Int32Array(clusterCount).fill(-1);
+  const children: number[][] = Array.from({ length: clusterCount }, () => []);
+
+  condensed.forEach(edge => {
+    if (edge.child >= n) {
+      birth[edge.child - n] = edge.lambda;
+      clusterParent[edge.child - n] = edge.parent - n;
+      children[edge.parent - n].push(edge.child - n);
+    }
+  });
+  condensed.forEach(edge => {
+    stability[edge.parent - n] += (edge.lambda - birth[edge.parent - n]) * edge.childSize;
+  });
+
+  const selected = new Array<boolean>(clusterCount).fill(false);
+
+  // Children always have higher labels than their parents; the root is never selected
+  for (let cluster = clusterCount - 1; cluster > 0; cluster--) {
+    const subtreeStability = children[cluster].reduce((sum, child) => sum + stability[child], 0);
+
+    if (subtreeStability > stability[cluster]) {
+      stability[cluster] = subtreeStability;
+    } else {
+      selected[cluster] = true;
+      const stack = [...children[cluster]];
+      while (stack.length > 0) {
+        const descendant = stack.pop()!;
+        selected[descendant] = false;
+        stack.push(...children[descendant]);
+      }
+    }
+  }
+
+  return { selected, clusterParent, stability };
+}
+
+export function runHDBSCAN(
+  vectors: number[][],
+  options: HDBSCANOptions,
+  onProgress?: HDBSCANProgress
+): HDBSCANResult {
+  const n = vectors.length;
+  const minClusterSize = Math.max(2, Math.round(options.minClusterSize));
+  const minSamples = Math.max(1, Math.round(options.minSamples ?? minClusterSize));
+
+  if (n < minClusterSize) {
+    return {
+      labels: new Array(n).fill(NOISE_LABEL),
+      probabilities: new Array(n).fill(0),
+      stabilities: [],
+      clusterCount: 0
+    };
+  }
+
+  const distance = getDistance(options.metric);
+  const coreDistances = computeCoreDistances(vectors, distance, minSamples, onProgress);
+  const edges = mutualReachabilityMST(vectors, distance, coreDistances, onProgress);
+  onProgress?.(0.9, 'Condensing cluster hierarchy...');
+
+  const condensed = condenseTree(singleLinkage(edges, n), n, minClusterSize);
+  const { selected, clusterParent, stability } = selectClusters(condensed, n);
+
+  // Nearest selected ancestor of every condensed cluster, resolved top-down
+  const clusterLabel = new Int32Array(selected.length).fill(NOISE_LABEL);
+  const stabilities: number[] = [];
+  selected.forEach((isSelected, cluster) => {
+    if (isSelected) {
+      clusterLabel[cluster] = stabilities.length;
+      stabilities.push(stability[cluster]);
+    }
+  });
+  const owner = new Int32Array(selected.length).fill(NOISE_LABEL);
+  for (let cluster = 0; cluster < selected.length; cluster++) {
+    owner[cluster] = selected[cluster]
+      ? clusterLabel[cluster]
+      : clusterParent[cluster] >= 0 ? owner[clusterParent[cluster]] : NOISE_LABEL;
+  }
+
+  const labels = new Array<number>(n).fill(NOISE_LABEL);
+  const pointLambda = new Float64Array(n);
+  const maxLambda = new Float64Array(stabilities.length);
+
+  condensed.forEach(edge => {
+    if (edge.child >= n) return;
+    const label = owner[edge.parent - n];
+    labels[edge.child] = label;
+    pointLambda[edge.child] = edge.lambda;
+    if (label !== NOISE_LABEL) {
+      maxLambda[label] = Math.max(maxLambda[label], edge.lambda);
+    }
+  });
+
+  const probabilities = labels.map((label, point) => {
+    if (label === NOISE_LABEL) return 0;
+    if (maxLambda[label] === 0) return 1;
+    return Math.min(pointLambda[point], maxLambda[label]) / maxLambda[label];
+  });
+
+  onProgress?.(1, `Found ${stabilities.length} clusters`);
+
+  return { labels, probabilities, stabilities, clusterCount: stabilities.length };
+}
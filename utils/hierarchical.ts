@@ -0,0 +1,213 @@
+// Agglomerative hierarchical clustering
+// Builds the full merge tree with the nearest-neighbour chain algorithm and
+// Lance-Williams updates (O(n^2) time and memory), so the tree can later be
+// cut at any height or number of clusters without touching the embeddings.
+import { DistanceMetric, cosineDistance, euclideanDistance, normalizeVector } from './distance';
+
+export type LinkageMethod = 'ward' | 'average' | 'complete';
+
+export const LINKAGE_METHODS: { id: LinkageMethod; label: string }[] = [
+  { id: 'ward', label: 'Ward (minimum variance)' },
+  { id: 'average', label: 'Average' },
+  { id: 'complete', label: 'Complete' }
+];
+
+// Same layout as SciPy's linkage matrix: leaves are 0..n-1 and the i-th merge
+// creates node n + i. Merges are sorted by height.
+export interface DendrogramMerge {
+  left: number;
+  right: number;
+  height: number;
+  size: number;
+}
+
+export interface Dendrogram {
+  leafCount: number;
+  merges: DendrogramMerge[];
+  linkage: LinkageMethod;
+  metric: DistanceMetric;
+}
+
+export type HierarchicalProgress = (progress: number, message: string) => void;
+
+// Position of pair (i, j), i < j, in a condensed upper-triangular matrix
+function condensedIndex(n: number, i: number, j: number): number {
+  if (i > j) [i, j] = [j, i];
+  return n * i - (i * (i + 1)) / 2 + j - i - 1;
+}
+
+export function buildDendrogram(
+  vectors: number[][],
+  linkage: LinkageMethod = 'ward',
+  metric: DistanceMetric = 'euclidean',
+  onProgress?: HierarchicalProgress
+): Dendrogram {
+  const n = vectors.length;
+  if (n < 2) return { leafCount: n, merges: [], linkage, metric };
+
+  // Ward is only defined for Euclidean distances; for cosine it runs on unit
+  // vectors, where squared Euclidean distance is 2 * (1 - cosine similarity).
+  const ward = linkage === 'ward';
+  const points = ward && metric === 'cosine' ? vectors.map(normalizeVector) : vectors;
+  const distance = !ward && metric === 'cosine' ? cosineDistance : euclideanDistance;
+
+  // Ward updates work on squared distances
+  const distances = new Float64Array((n * (n - 1)) / 2);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const d = distance(points[i], points[j]);
+      distances[condensedIndex(n, i, j)] = ward ? d * d : d;
+    }
+    if (onProgress && i % 100 === 0) {
+      onProgress(0.5 * i / n, `Pairwise distances: ${i}/${n} points`);
+    }
+  }
+
+  const size = new Float64Array(n).fill(1);
+  const active = new Uint8Array(n).fill(1);
+  const raw: { a: number; b: number; height: number }[] = [];
+  const chain: number[] = [];
+
+  // Each cluster lives in the slot of one of its points; merged slots are deactivated
+  for (let step = 0; step < n - 1; step++) {
+    if (chain.length === 0) {
+      chain.push(active.indexOf(1));
+    }
+
+    let a: number;
+    let b: number;
+    let nearestDistance: number;
+
+    while (true) {
+      a = chain[chain.length - 1];
+      const previous = chain.length > 1 ? chain[chain.length - 2] : -1;
+
+      // Prefer the previous chain element on ties so the chain always terminates
+      b = previous;
+      nearestDistance = previous >= 0 ? distances[condensedIndex(n, a, previous)] : Infinity;
+      for (let k = 0; k < n; k++) {
+        if (!active[k] || k === a) continue;
+        const d = distances[condensedIndex(n, a, k)];
+        if (d < nearestDistance) {
+          nearestDistance = d;
+          b = k;
+        }
+      }
+
+      if (b === previous) break;
+      chain.push(b);
+    }
+
+    chain.pop();
+    chain.pop();
+    raw.push({ a, b, height: ward ? Math.sqrt(nearestDistance) : nearestDistance });
+
+    // Merge a into b and update b's distances (Lance-Williams)
+    const sizeA = size[a];
+    const sizeB = size[b];
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === a || k === b) continue;
+      const dA = distances[condensedIndex(n, a, k)];
+      const dB = distances[condensedIndex(n, b, k)];
+      let merged: number;
+
+      if (ward) {
+        const sizeK = size[k];
+        merged = ((sizeA + sizeK) * dA + (sizeB + sizeK) * dB - sizeK * nearestDistance) / (sizeA + sizeB + sizeK);
+      } else if (linkage === 'average') {
+        merged = (sizeA * dA + sizeB * dB) / (sizeA + sizeB);
+      } else {
+        merged = Math.max(dA, dB);
+      }
+
+      distances[condensedIndex(n, b, k)] = merged;
+    }
+
+    active[a] = 0;
+    size[b] = sizeA + sizeB;
+
+    if (onProgress && step % 100 === 0) {
+      onProgress(0.5 + 0.5 * step / n, `Merging clusters: ${step}/${n - 1}`);
+    }
+  }
+
+  // The chain finds merges out of order; sort them and give each merge its node id
+  raw.sort((x, y) => x.height - y.height);
+
+  const parent = new Int32Array(2 * n - 1);
+  for (let i = 0; i < parent.length; i++) parent[i] = i;
+  const find = (node: number): number => {
+    while (parent[node] !== node) {
+      parent[node] = parent[parent[node]];
+      node = parent[node];
+    }
+    return node;
+  };
+  const nodeSize = new Int32Array(2 * n - 1).fill(1);
+
+  const merges = raw.map((merge, i) => {
+    const left = find(merge.a);
+    const right = find(merge.b);
+    const node = n + i;
+    parent[left] = node;
+    parent[right] = node;
+    nodeSize[node] = nodeSize[left] + nodeSize[right];
+    return { left: Math.min(left, right), right: Math.max(left, right), height: merge.height, size: nodeSize[node] };
+  });
+
+  return { leafCount: n, merges, linkage, metric };
+}
+
+// Apply the first mergeCount merges and label the resulting components 0..k-1,
+// in order of each component's first point
+function labelsAfterMerges(dendrogram: Dendrogram, mergeCount: number): number[] {
+  const n = dendrogram.leafCount;
+  const parent = new Int32Array(Math.max(2 * n - 1, 0));
+  for (let i = 0; i < parent.length; i++) parent[i] = i;
+  const find = (node: number): number => {
+    while (parent[node] !== node) {
+      parent[node] = parent[parent[node]];
+      node = parent[node];
+    }
+    return node;
+  };
+
+  for (let i = 0; i < mergeCount; i++) {
+    const merge = dendrogram.merges[i];
+    parent[find(merge.left)] = n + i;
+    parent[find(merge.right)] = n + i;
+  }
+
+  const labelOf = new Map<number, number>();
+  const labels: number[] = [];
+  for (let point = 0; point < n; point++) {
+    const root = find(point);
+    if (!labelOf.has(root)) labelOf.set(root, labelOf.size);
+    labels.push(labelOf.get(root)!);
+  }
+  return labels;
+}
+
+export function cutDendrogramByCount(dendrogram: Dendrogram, k: number): number[] {
+  const clusters = Math.min(Math.max(1, Math.round(k)), dendrogram.leafCount);
+  return labelsAfterMerges(dendrogram, dendrogram.leafCount - clusters);
+}
+
+// Every merge at or below the height is applied
+export function cutDendrogramByHeight(dendrogram: Dendrogram, height: number): number[] {
+  const mergeCount = dendrogram.merges.filter(merge => merge.height <= height).length;
+  return labelsAfterMerges(dendrogram, mergeCount);
+}
+
+// A height between the merges that leave k and k - 1 clusters, for drawing the cut
+export function heightForClusterCount(dendrogram: Dendrogram, k: number): number {
+  const { merges, leafCount } = dendrogram;
+  const applied = leafCount - Math.min(Math.max(1, Math.round(k)), leafCount);
+  const below = applied > 0 ? merges[applied - 1].height : 0;
+  const above = applied < merges.length ? merges[applied].height : below;
+  return (below + above) / 2;
+}
+
+export function clusterCountAtHeight(dendrogram: Dendrogram, height: number): number {
+  return dendrogram.leafCount - dendrogram.merges.filter(merge => merge.height <= height).length;
+}
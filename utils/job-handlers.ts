@@ -0,0 +1,163 @@
+// Batch work for the background job types, see job-queue.ts
+// Each batch selects rows that still lack the job's output, so a job resumes
+// exactly where it stopped after a crash, restart or cancel.
+import { Database, embeddingColumnFor } from './clickhouse';
+import { ProfileError, getApiKey } from './credential-profiles';
+import { clickHouseEmbeddingCache } from './embedding-cache';
+import { embedTexts, resolveEmbeddingProvider } from './embedding-providers';
+import { detectLanguagesBatch } from './language-detector';
+
+export type JobType = 'embeddings' | 'language-detection';
+
+export interface JobContext {
+  profileId: string | null;
+  params: Record<string, any>;
+  report: (message: string) => void;
+}
+
+export interface BatchResult {
+  processed: number; // 0 means nothing is left
+  stats?: Record<string, number>; // added to the job's running totals
+  delayMs?: number; // pause before the next batch
+}
+
+export interface JobHandler {
+  label: string;
+  // Checked when the job is created so bad settings fail fast instead of in the background
+  validate: (context: JobContext) => void;
+  // The column the job fills and the model it fills it with; two jobs of a
+  // type with different targets must not run side by side
+  target: (context: JobContext) => { column: string; model?: string };
+  countRemaining: (db: Database, context: JobContext) => Promise<number>;
+  processBatch: (db: Database, context: JobContext) => Promise<BatchResult>;
+}
+
+function embeddingTarget(context: JobContext) {
+  const provider = resolveEmbeddingProvider(context.params.embeddingConfig || {});
+  const apiKey = provider.apiKey ? getApiKey(context.profileId, provider.apiKey) : undefined;
+  if (provider.apiKeyRequired && !apiKey) {
+    throw new ProfileError(`The selected profile has no ${provider.apiKey} API key configured`);
+  }
+  return { provider, apiKey, column: embeddingColumnFor(provider.dimensions) };
+}
+
+const embeddingsHandler: JobHandler = {
+  label: 'Embedding generation',
+
+  validate(context) {
+    embeddingTarget(context);
+  },
+
+  target(context) {
+    const { provider, column } = embeddingTarget(context);
+    return { column, model: provider.model };
+  },
+
+  async countRemaining(db, context) {
+    const { column } = embeddingTarget(context);
+    const rows = await db.query<{ total: string }>(
+      `SELECT count() as total FROM ${db.table('videos')} WHERE ${column} IS NULL OR length(${column}) = 0`
+    );
+    return parseInt(rows[0]?.total) || 0;
+  },
+
+  async processBatch(db, context) {
+    const { provider, apiKey, column } = embeddingTarget(context);
+    const batchSize = context.params.embeddingConfig?.batchSize || 25;
+    const batchDelay = context.params.embeddingConfig?.batchDelay ?? 1000;
+
+    const videos = await db.query<{ id: string; title: string }>(`
+      SELECT id, title
+      FROM ${db.table('videos')}
+      WHERE ${column} IS NULL OR length(${column}) = 0
+      LIMIT {batchSize:UInt32}
+    `, { batchSize });
+
+    if (videos.length === 0) return { processed: 0 };
+
+    context.report(`Calling ${provider.label} for ${videos.length} videos...`);
+    let cacheHits = 0;
+    let cacheMisses = videos.length;
+    const embeddings = await embedTexts(provider, videos.map(video => video.title), {
+      apiKey,
+      // The stored backfill vectors are for clustering
+      taskType: 'CLUSTERING',
+      cache: clickHouseEmbeddingCache(db),
+      onCacheLookup: ({ hits, misses }) => {
+        cacheHits = hits;
+        cacheMisses = misses;
+      }
+    });
+
+    context.report(`Saving ${embeddings.length} embeddings to database...`);
+    for (let i = 0; i < videos.length; i++) {
+      if (!embeddings[i] || embeddings[i].length === 0) continue;
+      await db.command(
+        `
+          ALTER TABLE ${db.table('videos')}
+          UPDATE ${column} = {embedding:Array(Float32)}
+          WHERE id = {id:String}
+        `,
+        { embedding: embeddings[i], id: videos[i].id },
+        { mutations_sync: 2 }
+      );
+    }
+
+    return {
+      processed: videos.length,
+      stats: { cacheHits, cacheMisses },
+      // Cache-only batches made no API calls
+      delayMs: cacheMisses > 0 ? batchDelay : 0
+    };
+  }
+};
+
+const languageDetectionHandler: JobHandler = {
+  label: 'Language detection',
+
+  validate() {},
+
+  target() {
+    return { column: 'language_detected' };
+  },
+
+  async countRemaining(db) {
+    const rows = await db.query<{ total: string }>(
+      `SELECT count() as total FROM ${db.table('videos')} WHERE language_detected IS NULL OR language_detected = ''`
+    );
+    return parseInt(rows[0]?.total) || 0;
+  },
+
+  async processBatch(db, context) {
+    const videos = await db.query<{ id: string; title: string }>(`
+      SELECT id, title
+      FROM ${db.table('videos')}
+      WHERE language_detected IS NULL OR language_detected = ''
+      LIMIT {batchSize:UInt32}
+    `, { batchSize: 100 });
+
+    if (videos.length === 0) return { processed: 0 };
+
+    context.report(`Detecting languages for ${videos.length} videos...`);
+    const detections = detectLanguagesBatch(videos.map(video => video.title));
+
+    // One mutation for the whole batch, finished on all replicas before the next
+    // batch selects rows that still lack a language
+    await db.command(
+      `
+        ALTER TABLE ${db.table('videos')}
+        UPDATE language_detected = transform(id, {ids:Array(String)}, {languages:Array(String)}, '')
+        WHERE id IN {ids:Array(String)}
+      `,
+      { ids: videos.map(video => video.id), languages: detections.map(detection => detection.language) },
+      { mutations_sync: 2 }
+    );
+
+    return { processed: videos.length };
+  }
+};
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  'embeddings': embeddingsHandler,
+  'language-detection': languageDetectionHandler
+};
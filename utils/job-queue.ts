@@ -0,0 +1,333 @@
+// Persistent background jobs
+// Database backfills (embedding generation, language detection) run here rather
+// than inside an HTTP request, so closing the tab does not stop them. Jobs are
+// stored in ODATAI_JOBS_FILE (default .odatai/jobs.json) and run one at a time
+// in the server process. Jobs that were queued or running when the server
+// stopped are resumed on startup (see instrumentation.ts). Clients poll or
+// stream a job's status through /api/jobs.
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import { Database, connectDatabase } from './clickhouse';
+import { getClickHouseConfig } from './credential-profiles';
+import { assertSchemaCurrent } from './schema-migrations';
+import { JOB_HANDLERS, JobContext, JobType } from './job-handlers';
+
+export type { JobType } from './job-handlers';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  profileId: string | null;
+  params: Record<string, any>;
+  processed: number;
+  total: number;
+  message: string;
+  error?: string;
+  retries: number; // failed batch attempts that were retried
+  stats: Record<string, number>;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export class JobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+const DEFAULT_JOBS_FILE = '.odatai/jobs.json';
+const MAX_FINISHED_JOBS = 100;
+const MAX_BATCH_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+export const JOB_TYPES = Object.keys(JOB_HANDLERS) as JobType[];
+
+const jobs = new Map<string, Job>();
+const queue: string[] = [];
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+let loaded = false;
+let running: { id: string; controller: AbortController } | null = null;
+
+function jobsFilePath(): string {
+  return path.resolve(process.cwd(), process.env.ODATAI_JOBS_FILE || DEFAULT_JOBS_FILE);
+}
+
+export function isFinished(job: Job): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+// Write to a temporary file first so a crash never leaves half a JSON file
+function saveJobs() {
+  const finished = Array.from(jobs.values())
+    .filter(isFinished)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  finished.slice(MAX_FINISHED_JOBS).forEach(job => jobs.delete(job.id));
+
+  const filePath = jobsFilePath();
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileSync(`${filePath}.tmp`, JSON.stringify(Array.from(jobs.values()), null, 2));
+  renameSync(`${filePath}.tmp`, filePath);
+}
+
+function update(job: Job, changes: Partial<Job>) {
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  saveJobs();
+  events.emit(job.id, { ...job });
+}
+
+// Load the stored jobs once and pick up whatever was interrupted
+export function resumeJobs() {
+  if (loaded) return;
+  loaded = true;
+
+  const filePath = jobsFilePath();
+  if (existsSync(filePath)) {
+    try {
+      const stored: Job[] = JSON.parse(readFileSync(filePath, 'utf8'));
+      stored.forEach(job => jobs.set(job.id, job));
+    } catch (error: any) {
+      console.error(`[JOBS] Could not read ${filePath}: ${error.message}`);
+    }
+  }
+
+  const interrupted = Array.from(jobs.values())
+    .filter(job => job.status === 'queued' || job.status === 'running')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  interrupted.forEach(job => {
+    if (job.status === 'running') {
+      update(job, { status: 'queued', message: 'Resuming after server restart...' });
+    }
+    queue.push(job.id);
+  });
+
+  if (interrupted.length > 0) {
+    console.log(`[JOBS] Resuming ${interrupted.length} interrupted job(s)`);
+  }
+  runNext();
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+async function runJob(job: Job, signal: AbortSignal) {
+  const handler = JOB_HANDLERS[job.type];
+  const context: JobContext = {
+    profileId: job.profileId,
+    params: job.params,
+    report: message => update(job, { message: `${job.processed}/${job.total}: ${message}` })
+  };
+  let db: Database | null = null;
+
+  try {
+    db = connectDatabase(getClickHouseConfig(job.profileId));
+    await assertSchemaCurrent(db);
+
+    let remaining = await handler.countRemaining(db, context);
+    update(job, {
+      status: 'running',
+      total: job.processed + remaining,
+      message: `${handler.label}: ${remaining} videos to process`
+    });
+
+    // The rows still left in the database decide when the job is done, not a
+    // count of batches
+    while (remaining > 0 && !signal.aborted) {
+      let result;
+      for (let attempt = 1; ; attempt++) {
+        try {
+          result = await handler.processBatch(db, context);
+          break;
+        } catch (error: any) {
+          if (attempt >= MAX_BATCH_ATTEMPTS || signal.aborted) throw error;
+          console.warn(`[JOBS] ${job.id} batch failed (attempt ${attempt}/${MAX_BATCH_ATTEMPTS}): ${error.message}`);
+          update(job, {
+            retries: job.retries + 1,
+            message: `Batch failed (${error.message}), retrying (attempt ${attempt + 1}/${MAX_BATCH_ATTEMPTS})...`
+          });
+          await sleep(RETRY_DELAY_MS * attempt, signal);
+        }
+      }
+
+      if (result.processed === 0) break;
+
+      const left = await handler.countRemaining(db, context);
+      // Rows a batch could not finish (e.g. no vector from the provider) would be
+      // selected again forever
+      if (left >= remaining) {
+        throw new Error(`${handler.label} made no progress: ${left} videos still unprocessed`);
+      }
+
+      const stats = { ...job.stats };
+      Object.entries(result.stats || {}).forEach(([key, value]) => {
+        stats[key] = (stats[key] || 0) + value;
+      });
+      const processed = job.processed + (remaining - left);
+      remaining = left;
+      update(job, { processed, total: processed + remaining, stats, message: `Processed ${processed} of ${processed + remaining} videos` });
+
+      if (result.delayMs && remaining > 0) {
+        await sleep(result.delayMs, signal);
+      }
+    }
+
+    if (signal.aborted) {
+      update(job, { status: 'cancelled', message: `Cancelled after ${job.processed} of ${job.total} videos`, finishedAt: new Date().toISOString() });
+    } else {
+      update(job, { status: 'completed', message: `${handler.label} completed: ${job.processed} videos`, finishedAt: new Date().toISOString() });
+    }
+  } catch (error: any) {
+    console.error(`[JOBS] ${job.id} failed:`, error);
+    update(job, {
+      status: signal.aborted ? 'cancelled' : 'failed',
+      error: signal.aborted ? undefined : error.message || 'Job failed',
+      message: signal.aborted ? 'Cancelled' : `Failed after ${job.processed} of ${job.total} videos`,
+      finishedAt: new Date().toISOString()
+    });
+  } finally {
+    await db?.close();
+  }
+}
+
+function runNext() {
+  if (running) return;
+
+  const id = queue.shift();
+  const job = id ? jobs.get(id) : undefined;
+  if (!job) {
+    if (queue.length > 0) runNext();
+    return;
+  }
+
+  running = { id: job.id, controller: new AbortController() };
+  runJob(job, running.controller.signal).finally(() => {
+    running = null;
+    runNext();
+  });
+}
+
+export function createJob(type: unknown, profileId: unknown, params: Record<string, any> = {}): Job {
+  resumeJobs();
+
+  if (!JOB_TYPES.includes(type as JobType)) {
+    throw new JobError(`Unknown job type: ${JSON.stringify(type)}`);
+  }
+  const jobType = type as JobType;
+  const profile = typeof profileId === 'string' && profileId ? profileId : null;
+
+  // Fail fast on a profile without a database or a misconfigured provider
+  getClickHouseConfig(profile ?? undefined);
+  const handler = JOB_HANDLERS[jobType];
+  const context: JobContext = { profileId: profile, params, report: () => {} };
+  handler.validate(context);
+
+  // Two backfills of the same kind would race for the same rows: the same
+  // request gets the active job back, a different target is refused
+  const active = Array.from(jobs.values()).find(job =>
+    job.type === jobType && job.profileId === profile && !isFinished(job)
+  );
+  if (active) {
+    const target = handler.target(context);
+    const activeTarget = handler.target({ ...context, params: active.params });
+    if (target.column === activeTarget.column && target.model === activeTarget.model) return { ...active };
+    throw new JobError(`An ${jobType} job for ${activeTarget.column}${activeTarget.model ? ` (${activeTarget.model})` : ''} is already running`);
+  }
+
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    type: jobType,
+    status: 'queued',
+    profileId: profile,
+    params,
+    processed: 0,
+    total: 0,
+    message: 'Queued',
+    retries: 0,
+    stats: {},
+    createdAt: now,
+    updatedAt: now
+  };
+
+  jobs.set(job.id, job);
+  saveJobs();
+  queue.push(job.id);
+  runNext();
+  return { ...job };
+}
+
+export function getJob(id: unknown): Job | null {
+  resumeJobs();
+  const job = typeof id === 'string' ? jobs.get(id) : undefined;
+  return job ? { ...job } : null;
+}
+
+function requireJob(id: unknown): Job {
+  const job = typeof id === 'string' ? jobs.get(id) : undefined;
+  if (!job) throw new JobError(`Unknown job: ${JSON.stringify(id)}`);
+  return job;
+}
+
+// Newest first
+export function listJobs(profileId?: unknown): Job[] {
+  resumeJobs();
+  const profile = typeof profileId === 'string' && profileId ? profileId : null;
+  return Array.from(jobs.values())
+    .filter(job => profileId === undefined || job.profileId === profile)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(job => ({ ...job }));
+}
+
+// A running job stops after its current batch
+export function cancelJob(id: unknown): Job {
+  resumeJobs();
+  const job = requireJob(id);
+  if (isFinished(job)) throw new JobError(`Job is already ${job.status}`);
+
+  if (running?.id === job.id) {
+    running.controller.abort();
+    update(job, { message: 'Cancelling after the current batch...' });
+  } else {
+    const position = queue.indexOf(job.id);
+    if (position >= 0) queue.splice(position, 1);
+    update(job, { status: 'cancelled', message: 'Cancelled before it started', finishedAt: new Date().toISOString() });
+  }
+  return { ...job };
+}
+
+// Failed and cancelled jobs continue from the rows they had not processed yet
+export function retryJob(id: unknown): Job {
+  resumeJobs();
+  const job = requireJob(id);
+  if (job.status !== 'failed' && job.status !== 'cancelled') {
+    throw new JobError(`Only failed or cancelled jobs can be retried (job is ${job.status})`);
+  }
+
+  update(job, { status: 'queued', error: undefined, finishedAt: undefined, message: 'Queued for retry' });
+  queue.push(job.id);
+  runNext();
+  return { ...job };
+}
+
+export function subscribeToJob(id: string, listener: (job: Job) => void): () => void {
+  events.on(id, listener);
+  return () => {
+    events.off(id, listener);
+  };
+}
@@ -1,355 +1,499 @@
-// Simple manual implementation for K optimization analysis
-// Using basic distance calculations without external ML libraries
+// K selection for K-means, implemented without external ML libraries
+// Every candidate K is clustered once (k-means++ seeding, several restarts,
+// best inertia kept) and that single fit is scored by every method: elbow,
+// silhouette, Davies-Bouldin and Calinski-Harabasz. The gap statistic clusters
+// a sample against uniform reference data. Each method votes for one K and the
+// votes are combined into the recommendation and its confidence breakdown.
+import { DistanceMetric, normalizeVector } from './distance';
+import { DEFAULT_SEED, RandomSource, createRandom, randomInt } from './random';
+import { silhouetteValues } from './silhouette';
+
+export type KSelectionMethod = 'elbow' | 'silhouette' | 'gap' | 'davies-bouldin' | 'calinski-harabasz';
+export type KConfidence = 'low' | 'medium' | 'high';
 
 export interface KOptimizationResult {
   k: number;
   score: number;
-  method: 'elbow' | 'silhouette';
-  confidence: 'low' | 'medium' | 'high';
+  method: KSelectionMethod;
+  confidence: KConfidence;
+}
+
+export interface KConfidenceBreakdown {
+  overall: KConfidence;
+  agreement: number; // share of the vote weight that went to the recommended K, 0-1
+  votes: KOptimizationResult[];
 }
 
 export interface KAnalysisResult {
   optimalK: number;
-  recommendations: KOptimizationResult[];
+  recommendations: KOptimizationResult[]; // one vote per method
   elbowScores: { k: number; wcss: number; improvement: number }[];
   silhouetteScores: { k: number; score: number }[];
+  gapScores: { k: number; gap: number; standardError: number }[];
+  daviesBouldinScores: { k: number; score: number }[];
+  calinskiHarabaszScores: { k: number; score: number }[];
+  confidence: KConfidenceBreakdown;
   reasoning: string;
 }
 
-// Simple euclidean distance calculation
-function euclideanDistance(a: number[], b: number[]): number {
+export interface KAnalysisOptions {
+  metric?: DistanceMetric;
+  seed?: number;
+  restarts?: number; // k-means runs per K, the lowest inertia is kept
+  maxIterations?: number;
+  gapReferences?: number; // uniform reference datasets for the gap statistic
+}
+
+// Silhouette and the gap statistic are quadratic or repeated per K, so they
+// run on a fixed random sample of the points
+const SILHOUETTE_SAMPLE_SIZE = 2000;
+const GAP_SAMPLE_SIZE = 500;
+
+const CONFIDENCE_WEIGHT: Record<KConfidence, number> = { low: 1, medium: 2, high: 3 };
+
+const METHOD_LABELS: Record<KSelectionMethod, string> = {
+  'elbow': 'Elbow',
+  'silhouette': 'Silhouette',
+  'gap': 'Gap statistic',
+  'davies-bouldin': 'Davies-Bouldin',
+  'calinski-harabasz': 'Calinski-Harabasz'
+};
+
+function squaredEuclidean(a: number[], b: number[]): number {
   let sum = 0;
   for (let i = 0; i < a.length; i++) {
     const diff = a[i] - b[i];
     sum += diff * diff;
   }
-  return Math.sqrt(sum);
+  return sum;
 }
 
-// Simple K-means implementation for analysis
-function simpleKMeans(data: number[][], k: number): { clusters: number[][], centroids: number[][] } {
-  const points = data.length;
-  const dimensions = data[0].length;
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
 
-  // Initialize centroids randomly
-  const centroids: number[][] = [];
-  for (let i = 0; i < k; i++) {
-    const centroid: number[] = [];
-    for (let j = 0; j < dimensions; j++) {
-      centroid.push(Math.random());
-    }
-    centroids.push(centroid);
+// Points are unit vectors for the cosine metric, so 1 - dot is the cosine distance.
+// cost() is what K-means minimizes: squared Euclidean, or cosine distance.
+function metricFunctions(metric: DistanceMetric) {
+  if (metric === 'cosine') {
+    const cosine = (a: number[], b: number[]) => Math.max(0, 1 - dot(a, b));
+    return { distance: cosine, cost: cosine };
   }
+  return {
+    distance: (a: number[], b: number[]) => Math.sqrt(squaredEuclidean(a, b)),
+    cost: squaredEuclidean
+  };
+}
 
-  // Iterate to convergence (max 50 iterations)
-  for (let iter = 0; iter < 50; iter++) {
-    const clusters: number[][] = Array.from({ length: k }, () => []);
+function sampleIndices(n: number, size: number, random: RandomSource): number[] {
+  const indices = Array.from({ length: n }, (_, i) => i);
+  if (size >= n) return indices;
+  for (let i = 0; i < size; i++) {
+    const j = i + randomInt(random, n - i);
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, size).sort((a, b) => a - b);
+}
 
-    // Assign points to nearest centroids
-    for (let i = 0; i < points; i++) {
-      let minDistance = Infinity;
-      let closestCentroid = 0;
+interface KMeansFit {
+  labels: Int32Array;
+  centroids: number[][];
+  inertia: number;
+}
 
-      for (let j = 0; j < k; j++) {
-        const dist = euclideanDistance(data[i], centroids[j]);
-        if (dist < minDistance) {
-          minDistance = dist;
-          closestCentroid = j;
+// k-means++: each new centroid is drawn with probability proportional to its
+// squared distance from the nearest centroid chosen so far
+function seedCentroids(points: number[][], k: number, metric: DistanceMetric, random: RandomSource): number[][] {
+  const { cost } = metricFunctions(metric);
+  const n = points.length;
+  const centroids = [points[randomInt(random, n)].slice()];
+  const nearest = new Float64Array(n).fill(Infinity);
+
+  while (centroids.length < k) {
+    const latest = centroids[centroids.length - 1];
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+      const c = cost(points[i], latest);
+      nearest[i] = Math.min(nearest[i], metric === 'cosine' ? c * c : c);
+      total += nearest[i];
+    }
+
+    let chosen = randomInt(random, n);
+    if (total > 0) {
+      let target = random() * total;
+      for (let i = 0; i < n; i++) {
+        target -= nearest[i];
+        if (target <= 0) {
+          chosen = i;
+          break;
         }
       }
-      clusters[closestCentroid].push(i);
     }
+    centroids.push(points[chosen].slice());
+  }
 
-    // Update centroids
-    let changed = false;
-    for (let i = 0; i < k; i++) {
-      if (clusters[i].length === 0) continue;
+  return centroids;
+}
 
-      const newCentroid: number[] = new Array(dimensions).fill(0);
-      for (const pointIndex of clusters[i]) {
-        for (let j = 0; j < dimensions; j++) {
-          newCentroid[j] += data[pointIndex][j];
+function fitKMeans(
+  points: number[][],
+  k: number,
+  metric: DistanceMetric,
+  random: RandomSource,
+  maxIterations: number
+): KMeansFit {
+  const { cost } = metricFunctions(metric);
+  const n = points.length;
+  const dimensions = points[0].length;
+  const centroids = seedCentroids(points, k, metric, random);
+  const labels = new Int32Array(n).fill(-1);
+  const pointCost = new Float64Array(n);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+    for (let i = 0; i < n; i++) {
+      let best = 0;
+      let bestCost = Infinity;
+      for (let c = 0; c < k; c++) {
+        const value = cost(points[i], centroids[c]);
+        if (value < bestCost) {
+          bestCost = value;
+          best = c;
         }
       }
-      for (let j = 0; j < dimensions; j++) {
-        newCentroid[j] /= clusters[i].length;
-      }
-
-      // Check if centroid changed significantly
-      const distance = euclideanDistance(centroids[i], newCentroid);
-      if (distance > 0.001) {
-        changed = true;
-      }
-      centroids[i] = newCentroid;
+      if (labels[i] !== best) changed = true;
+      labels[i] = best;
+      pointCost[i] = bestCost;
     }
-
     if (!changed) break;
-  }
 
-  // Final assignment
-  const finalClusters: number[][] = Array.from({ length: k }, () => []);
-  for (let i = 0; i < points; i++) {
-    let minDistance = Infinity;
-    let closestCentroid = 0;
+    const sums = Array.from({ length: k }, () => new Array(dimensions).fill(0));
+    const counts = new Array(k).fill(0);
+    for (let i = 0; i < n; i++) {
+      counts[labels[i]]++;
+      const sum = sums[labels[i]];
+      for (let d = 0; d < dimensions; d++) sum[d] += points[i][d];
+    }
 
-    for (let j = 0; j < k; j++) {
-      const dist = euclideanDistance(data[i], centroids[j]);
-      if (dist < minDistance) {
-        minDistance = dist;
-        closestCentroid = j;
+    for (let c = 0; c < k; c++) {
+      if (counts[c] === 0) {
+        // Empty cluster: move it to the worst-fitting point
+        let worst = 0;
+        for (let i = 1; i < n; i++) {
+          if (pointCost[i] > pointCost[worst]) worst = i;
+        }
+        pointCost[worst] = 0;
+        centroids[c] = points[worst].slice();
+        continue;
       }
+      const mean = sums[c].map(value => value / counts[c]);
+      centroids[c] = metric === 'cosine' ? normalizeVector(mean) : mean;
     }
-    finalClusters[closestCentroid].push(i);
   }
 
-  return { clusters: finalClusters, centroids };
+  return { labels, centroids, inertia: pointCost.reduce((sum, value) => sum + value, 0) };
 }
 
-// Calculate Within-Cluster Sum of Squares (WCSS) for Elbow Method
-function calculateWCSS(data: number[][], clusters: number[][], centroids: number[][]): number {
-  let wcss = 0;
-
-  for (let i = 0; i < clusters.length; i++) {
-    const centroid = centroids[i];
-    for (const pointIndex of clusters[i]) {
-      const point = data[pointIndex];
-      const dist = euclideanDistance(point, centroid);
-      wcss += dist * dist;
-    }
+function bestOfRestarts(
+  points: number[][],
+  k: number,
+  metric: DistanceMetric,
+  random: RandomSource,
+  restarts: number,
+  maxIterations: number
+): KMeansFit {
+  let best: KMeansFit | null = null;
+  for (let run = 0; run < restarts; run++) {
+    const fit = fitKMeans(points, k, metric, random, maxIterations);
+    if (!best || fit.inertia < best.inertia) best = fit;
   }
-
-  return wcss;
+  return best!;
 }
 
-// Calculate Silhouette Score
-function calculateSilhouetteScore(data: number[][], clusters: number[][]): number {
-  if (clusters.length < 2) return 0;
+// Lower is better: average over clusters of the worst (scatter_i + scatter_j) / separation_ij
+function daviesBouldinIndex(points: number[][], fit: KMeansFit, metric: DistanceMetric): number {
+  const { distance } = metricFunctions(metric);
+  const k = fit.centroids.length;
+  const scatter = new Float64Array(k);
+  const counts = new Int32Array(k);
 
-  const silhouetteScores: number[] = [];
+  points.forEach((point, i) => {
+    scatter[fit.labels[i]] += distance(point, fit.centroids[fit.labels[i]]);
+    counts[fit.labels[i]]++;
+  });
+  for (let c = 0; c < k; c++) scatter[c] = counts[c] > 0 ? scatter[c] / counts[c] : 0;
 
-  for (let clusterIndex = 0; clusterIndex < clusters.length; clusterIndex++) {
-    const cluster = clusters[clusterIndex];
-
-    for (const pointIndex of cluster) {
-      const point = data[pointIndex];
-
-      // Calculate a(i) - average distance to points in same cluster
-      let aScore = 0;
-      if (cluster.length > 1) {
-        for (const otherPointIndex of cluster) {
-          if (otherPointIndex !== pointIndex) {
-            aScore += euclideanDistance(point, data[otherPointIndex]);
-          }
-        }
-        aScore /= (cluster.length - 1);
-      }
-
-      // Calculate b(i) - minimum average distance to points in other clusters
-      let bScore = Infinity;
-      for (let otherClusterIndex = 0; otherClusterIndex < clusters.length; otherClusterIndex++) {
-        if (otherClusterIndex !== clusterIndex) {
-          const otherCluster = clusters[otherClusterIndex];
-          let avgDistance = 0;
-          for (const otherPointIndex of otherCluster) {
-            avgDistance += euclideanDistance(point, data[otherPointIndex]);
-          }
-          avgDistance /= otherCluster.length;
-          bScore = Math.min(bScore, avgDistance);
-        }
-      }
-
-      // Silhouette score for this point
-      const silhouette = bScore === Infinity ? 0 : (bScore - aScore) / Math.max(aScore, bScore);
-      silhouetteScores.push(silhouette);
+  let total = 0;
+  for (let i = 0; i < k; i++) {
+    let worst = 0;
+    for (let j = 0; j < k; j++) {
+      if (i === j) continue;
+      const separation = distance(fit.centroids[i], fit.centroids[j]);
+      worst = Math.max(worst, separation === 0 ? Infinity : (scatter[i] + scatter[j]) / separation);
     }
+    total += worst;
   }
-
-  return silhouetteScores.reduce((sum, score) => sum + score, 0) / silhouetteScores.length;
+  return total / k;
 }
 
-// Find optimal K using Elbow Method
-export function findOptimalKElbow(data: number[][], maxK: number = 10): KOptimizationResult[] {
-  const minK = 2;
-  const actualMaxK = Math.min(maxK, Math.floor(data.length / 2));
-  const results: { k: number; wcss: number; improvement: number }[] = [];
-
-  for (let k = minK; k <= actualMaxK; k++) {
-    try {
-      const result = simpleKMeans(data, k);
-      const wcss = calculateWCSS(data, result.clusters, result.centroids);
-
-      // Calculate improvement from previous K
-      let improvement = 0;
-      if (results.length > 0) {
-        const previousWCSS = results[results.length - 1].wcss;
-        improvement = (previousWCSS - wcss) / previousWCSS;
-      }
-
-      results.push({ k, wcss, improvement });
-    } catch (error) {
-      console.warn(`Failed to calculate WCSS for k=${k}:`, error);
+// Higher is better: between-cluster over within-cluster dispersion, each per degree of freedom
+function calinskiHarabaszIndex(points: number[][], fit: KMeansFit): number {
+  const n = points.length;
+  const k = fit.centroids.length;
+  const dimensions = points[0].length;
+  const overallMean = new Array(dimensions).fill(0);
+  const means = Array.from({ length: k }, () => new Array(dimensions).fill(0));
+  const counts = new Array(k).fill(0);
+
+  points.forEach((point, i) => {
+    const label = fit.labels[i];
+    counts[label]++;
+    for (let d = 0; d < dimensions; d++) {
+      means[label][d] += point[d];
+      overallMean[d] += point[d] / n;
     }
-  }
+  });
+  means.forEach((mean, c) => {
+    for (let d = 0; d < dimensions; d++) mean[d] /= counts[c] || 1;
+  });
+
+  let between = 0;
+  let within = 0;
+  means.forEach((mean, c) => {
+    between += counts[c] * squaredEuclidean(mean, overallMean);
+  });
+  points.forEach((point, i) => {
+    within += squaredEuclidean(point, means[fit.labels[i]]);
+  });
+
+  if (within === 0 || k < 2) return 0;
+  return (between / (k - 1)) / (within / (n - k));
+}
 
-  // Find elbow point (point where improvement starts to diminish significantly)
-  const recommendations: KOptimizationResult[] = [];
-
-  for (let i = 1; i < results.length - 1; i++) {
-    const current = results[i];
-    const next = results[i + 1];
-
-    // If improvement drops significantly, this might be the elbow
-    if (current.improvement > 0.05 && next.improvement < current.improvement * 0.5) {
-      recommendations.push({
-        k: current.k,
-        score: current.improvement,
-        method: 'elbow',
-        confidence: current.improvement > 0.1 ? 'high' : current.improvement > 0.05 ? 'medium' : 'low'
-      });
+// Uniform points in the bounding box of the data (projected to the sphere for cosine)
+function referenceDataset(points: number[][], metric: DistanceMetric, random: RandomSource): number[][] {
+  const dimensions = points[0].length;
+  const min = new Array(dimensions).fill(Infinity);
+  const max = new Array(dimensions).fill(-Infinity);
+  points.forEach(point => {
+    for (let d = 0; d < dimensions; d++) {
+      min[d] = Math.min(min[d], point[d]);
+      max[d] = Math.max(max[d], point[d]);
     }
-  }
+  });
 
-  return recommendations;
+  return points.map(() => {
+    const point = min.map((low, d) => low + random() * (max[d] - low));
+    return metric === 'cosine' ? normalizeVector(point) : point;
+  });
 }
 
-// Find optimal K using Silhouette Analysis
-export function findOptimalKSilhouette(data: number[][], maxK: number = 10): KOptimizationResult[] {
-  const minK = 2;
-  const actualMaxK = Math.min(maxK, Math.floor(data.length / 2));
-  const results: { k: number; score: number }[] = [];
+// Knee of the WCSS curve: the point farthest below the chord from first to last K
+function elbowVote(scores: { k: number; wcss: number }[]): KOptimizationResult {
+  if (scores.length < 3) {
+    return { k: scores[0]?.k ?? 2, score: 0, method: 'elbow', confidence: 'low' };
+  }
 
-  for (let k = minK; k <= actualMaxK; k++) {
-    try {
-      const result = simpleKMeans(data, k);
-      const silhouetteScore = calculateSilhouetteScore(data, result.clusters);
-      results.push({ k, score: silhouetteScore });
-    } catch (error) {
-      console.warn(`Failed to calculate Silhouette score for k=${k}:`, error);
+  const first = scores[0];
+  const last = scores[scores.length - 1];
+  const wcssRange = first.wcss - last.wcss || 1;
+  let best = first;
+  let bestDistance = -Infinity;
+
+  scores.forEach(score => {
+    const x = (score.k - first.k) / (last.k - first.k);
+    const y = (score.wcss - last.wcss) / wcssRange;
+    const distance = 1 - x - y;
+    if (distance > bestDistance) {
+      bestDistance = distance;
+      best = score;
     }
-  }
+  });
 
-  // Find K values with highest silhouette scores
-  const sortedResults = results.sort((a, b) => b.score - a.score);
-  const bestScore = sortedResults[0]?.score || 0;
+  return {
+    k: best.k,
+    score: bestDistance,
+    method: 'elbow',
+    confidence: bestDistance > 0.3 ? 'high' : bestDistance > 0.15 ? 'medium' : 'low'
+  };
+}
 
-  const recommendations: KOptimizationResult[] = [];
+// Confidence from how far the best score stands out from the median
+function marginConfidence(margin: number): KConfidence {
+  return margin > 0.3 ? 'high' : margin > 0.15 ? 'medium' : 'low';
+}
 
-  for (const result of sortedResults.slice(0, 3)) { // Top 3 candidates
-    const confidence = result.score > 0.5 ? 'high' : result.score > 0.3 ? 'medium' : 'low';
-    recommendations.push({
-      k: result.k,
-      score: result.score,
-      method: 'silhouette',
-      confidence
-    });
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+// Tibshirani's rule: the smallest K with gap(K) >= gap(K+1) - s(K+1)
+function gapVote(scores: { k: number; gap: number; standardError: number }[]): KOptimizationResult {
+  for (let i = 0; i < scores.length - 1; i++) {
+    const next = scores[i + 1];
+    const slack = scores[i].gap - (next.gap - next.standardError);
+    if (slack >= 0) {
+      return {
+        k: scores[i].k,
+        score: scores[i].gap,
+        method: 'gap',
+        confidence: slack > scores[i].standardError ? 'high' : 'medium'
+      };
+    }
   }
 
-  return recommendations;
+  const best = scores.reduce((a, b) => (b.gap > a.gap ? b : a), scores[0]);
+  return { k: best.k, score: best.gap, method: 'gap', confidence: 'low' };
 }
 
-// Comprehensive K analysis combining both methods
 export function analyzeOptimalK(
   data: number[][],
   maxK: number = 30,
-  onProgress?: (k: number, maxK: number, message: string) => void
+  onProgress?: (k: number, maxK: number, message: string) => void,
+  options: KAnalysisOptions = {}
 ): KAnalysisResult {
-  if (data.length < 4) {
+  const { metric = 'euclidean', seed = DEFAULT_SEED, restarts = 3, maxIterations = 50, gapReferences = 5 } = options;
+  const minK = 2;
+  const actualMaxK = Math.min(maxK, Math.floor(data.length / 2));
+
+  if (data.length < 4 || actualMaxK < minK) {
     return {
       optimalK: 2,
       recommendations: [],
       elbowScores: [],
       silhouetteScores: [],
+      gapScores: [],
+      daviesBouldinScores: [],
+      calinskiHarabaszScores: [],
+      confidence: { overall: 'low', agreement: 0, votes: [] },
       reasoning: 'Insufficient data points for meaningful clustering analysis. Using default k=2.'
     };
   }
 
-  const elbowResults = findOptimalKElbow(data, maxK);
-  const silhouetteResults = findOptimalKSilhouette(data, maxK);
+  const random = createRandom(seed);
+  const points = metric === 'cosine' ? data.map(normalizeVector) : data;
+  const { distance } = metricFunctions(metric);
+
+  // Shared silhouette sample and its distance matrix, computed once for all K
+  const silhouetteSample = sampleIndices(points.length, SILHOUETTE_SAMPLE_SIZE, random);
+  const m = silhouetteSample.length;
+  const sampleDistances = new Float64Array(m * m);
+  for (let a = 0; a < m; a++) {
+    for (let b = a + 1; b < m; b++) {
+      const d = distance(points[silhouetteSample[a]], points[silhouetteSample[b]]);
+      sampleDistances[a * m + b] = d;
+      sampleDistances[b * m + a] = d;
+    }
+  }
 
-  // Get detailed scores for visualization
-  const elbowScores: { k: number; wcss: number; improvement: number }[] = [];
-  const silhouetteScores: { k: number; score: number }[] = [];
+  const gapSample = sampleIndices(points.length, GAP_SAMPLE_SIZE, random).map(i => points[i]);
+  const references = Array.from({ length: gapReferences }, () => referenceDataset(gapSample, metric, random));
 
-  const minK = 2;
-  const actualMaxK = Math.min(maxK, Math.floor(data.length / 2));
+  const elbowScores: KAnalysisResult['elbowScores'] = [];
+  const silhouetteScores: KAnalysisResult['silhouetteScores'] = [];
+  const gapScores: KAnalysisResult['gapScores'] = [];
+  const daviesBouldinScores: KAnalysisResult['daviesBouldinScores'] = [];
+  const calinskiHarabaszScores: KAnalysisResult['calinskiHarabaszScores'] = [];
 
   for (let k = minK; k <= actualMaxK; k++) {
-    try {
-      // Report progress
-      if (onProgress) {
-        onProgress(k, actualMaxK, `Testing K=${k} clusters (${k-minK+1}/${actualMaxK-minK+1}): Running K-means clustering...`);
-      }
-
-      const result = simpleKMeans(data, k);
-      const wcss = calculateWCSS(data, result.clusters, result.centroids);
+    onProgress?.(k, actualMaxK, `Testing K=${k} clusters (${k - minK + 1}/${actualMaxK - minK + 1}): Running K-means with ${restarts} restarts...`);
+
+    const fit = bestOfRestarts(points, k, metric, random, restarts, maxIterations);
+    const previous = elbowScores[elbowScores.length - 1];
+    elbowScores.push({
+      k,
+      wcss: fit.inertia,
+      improvement: previous && previous.wcss > 0 ? (previous.wcss - fit.inertia) / previous.wcss : 0
+    });
 
-      if (onProgress) {
-        onProgress(k, actualMaxK, `Testing K=${k} clusters: Computing silhouette score...`);
-      }
+    onProgress?.(k, actualMaxK, `Testing K=${k} clusters: Computing silhouette, Davies-Bouldin and Calinski-Harabasz...`);
 
-      const silhouette = calculateSilhouetteScore(data, result.clusters);
+    const silhouettes = silhouetteValues(silhouetteSample.map(i => fit.labels[i]), (a, b) => sampleDistances[a * m + b]);
+    silhouetteScores.push({ k, score: silhouettes.reduce((sum, value) => sum + value, 0) / m });
+    daviesBouldinScores.push({ k, score: daviesBouldinIndex(points, fit, metric) });
+    calinskiHarabaszScores.push({ k, score: calinskiHarabaszIndex(points, fit) });
 
-      let improvement = 0;
-      if (elbowScores.length > 0) {
-        const previousWCSS = elbowScores[elbowScores.length - 1].wcss;
-        improvement = (previousWCSS - wcss) / previousWCSS;
-      }
+    onProgress?.(k, actualMaxK, `Testing K=${k} clusters: Computing gap statistic against ${gapReferences} reference datasets...`);
 
-      elbowScores.push({ k, wcss, improvement });
-      silhouetteScores.push({ k, score: silhouette });
-    } catch (error) {
-      console.warn(`Failed to analyze k=${k}:`, error);
+    if (k <= gapSample.length / 2) {
+      const logW = Math.log(Math.max(bestOfRestarts(gapSample, k, metric, random, 1, maxIterations).inertia, 1e-12));
+      const referenceLogW = references.map(reference =>
+        Math.log(Math.max(bestOfRestarts(reference, k, metric, random, 1, maxIterations).inertia, 1e-12))
+      );
+      const meanReference = referenceLogW.reduce((sum, value) => sum + value, 0) / referenceLogW.length;
+      const sd = Math.sqrt(referenceLogW.reduce((sum, value) => sum + (value - meanReference) ** 2, 0) / referenceLogW.length);
+      gapScores.push({ k, gap: meanReference - logW, standardError: sd * Math.sqrt(1 + 1 / gapReferences) });
     }
   }
 
-  // Combine recommendations and find consensus
-  const allRecommendations = [...elbowResults, ...silhouetteResults];
-  const kCounts = new Map<number, { count: number; totalScore: number; methods: string[] }>();
-
-  for (const rec of allRecommendations) {
-    const existing = kCounts.get(rec.k) || { count: 0, totalScore: 0, methods: [] };
-    existing.count++;
-    existing.totalScore += rec.score;
-    existing.methods.push(rec.method);
-    kCounts.set(rec.k, existing);
-  }
-
-  // Find K with highest consensus
-  let optimalK = 3; // default fallback
-  let bestConsensus = 0;
-
-  for (const [k, data] of kCounts.entries()) {
-    const consensus = data.count + (data.totalScore / data.count);
-    if (consensus > bestConsensus) {
-      bestConsensus = consensus;
+  // One vote per method
+  const votes: KOptimizationResult[] = [elbowVote(elbowScores)];
+
+  const bestSilhouette = silhouetteScores.reduce((a, b) => (b.score > a.score ? b : a));
+  votes.push({
+    k: bestSilhouette.k,
+    score: bestSilhouette.score,
+    method: 'silhouette',
+    confidence: bestSilhouette.score > 0.5 ? 'high' : bestSilhouette.score > 0.3 ? 'medium' : 'low'
+  });
+
+  if (gapScores.length > 0) votes.push(gapVote(gapScores));
+
+  const bestDaviesBouldin = daviesBouldinScores.reduce((a, b) => (b.score < a.score ? b : a));
+  const medianDaviesBouldin = median(daviesBouldinScores.map(score => score.score));
+  votes.push({
+    k: bestDaviesBouldin.k,
+    score: bestDaviesBouldin.score,
+    method: 'davies-bouldin',
+    confidence: marginConfidence(medianDaviesBouldin > 0 ? (medianDaviesBouldin - bestDaviesBouldin.score) / medianDaviesBouldin : 0)
+  });
+
+  const bestCalinskiHarabasz = calinskiHarabaszScores.reduce((a, b) => (b.score > a.score ? b : a));
+  votes.push({
+    k: bestCalinskiHarabasz.k,
+    score: bestCalinskiHarabasz.score,
+    method: 'calinski-harabasz',
+    confidence: marginConfidence(bestCalinskiHarabasz.score > 0
+      ? (bestCalinskiHarabasz.score - median(calinskiHarabaszScores.map(score => score.score))) / bestCalinskiHarabasz.score
+      : 0)
+  });
+
+  // Confidence-weighted vote; ties go to the silhouette winner, then the smaller K
+  const weights = new Map<number, number>();
+  votes.forEach(vote => weights.set(vote.k, (weights.get(vote.k) || 0) + CONFIDENCE_WEIGHT[vote.confidence]));
+  const totalWeight = votes.reduce((sum, vote) => sum + CONFIDENCE_WEIGHT[vote.confidence], 0);
+
+  let optimalK = bestSilhouette.k;
+  let bestWeight = weights.get(optimalK) || 0;
+  for (const [k, weight] of weights.entries()) {
+    if (weight > bestWeight || (weight === bestWeight && k < optimalK && optimalK !== bestSilhouette.k)) {
       optimalK = k;
+      bestWeight = weight;
     }
   }
 
-  // If no strong consensus, use silhouette winner
-  if (bestConsensus === 0 && silhouetteResults.length > 0) {
-    optimalK = silhouetteResults[0].k;
-  }
+  const agreement = bestWeight / totalWeight;
+  const overall: KConfidence = agreement >= 0.6 ? 'high' : agreement >= 0.35 ? 'medium' : 'low';
+  const supporters = votes.filter(vote => vote.k === optimalK).map(vote => METHOD_LABELS[vote.method]);
+  const dissenters = votes.filter(vote => vote.k !== optimalK).map(vote => `${METHOD_LABELS[vote.method]} K=${vote.k}`);
 
-  // Generate reasoning
-  let reasoning = `Analyzed K values from 2 to ${actualMaxK} using Elbow Method and Silhouette Analysis. `;
-
-  if (allRecommendations.length === 0) {
-    reasoning += `No clear optimal K found. Recommending k=${optimalK} as a balanced choice.`;
-  } else {
-    const bestMethod = kCounts.get(optimalK)?.methods[0] || 'analysis';
-    reasoning += `Optimal K=${optimalK} identified through ${bestMethod} method. `;
-
-    if ((kCounts.get(optimalK)?.count || 0) > 1) {
-      reasoning += `This value showed strong consensus across multiple methods.`;
-    }
-  }
+  let reasoning = `Analyzed K values from ${minK} to ${actualMaxK} (${restarts} k-means++ restarts each, seed ${seed}, ${metric} distance). `;
+  reasoning += `K=${optimalK} is supported by ${supporters.join(', ')}`;
+  reasoning += dissenters.length > 0 ? `; other votes: ${dissenters.join(', ')}. ` : '. ';
+  reasoning += `Overall confidence is ${overall} (${Math.round(agreement * 100)}% of the weighted vote).`;
 
   return {
     optimalK,
-    recommendations: allRecommendations,
+    recommendations: votes,
     elbowScores,
     silhouetteScores,
+    gapScores,
+    daviesBouldinScores,
+    calinskiHarabaszScores,
+    confidence: { overall, agreement, votes },
     reasoning
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,67 @@
+// Runs a canvas layout in a Web Worker, falling back to the main thread where
+// workers are unavailable. cancel() terminates the worker mid-computation.
+import { LayoutMethod, LayoutOptions, LayoutProgress, LayoutResult, computeLayout } from './dimensionality-reduction';
+import type { LayoutRequest, LayoutResponse } from './layout.worker';
+
+export class LayoutCancelledError extends Error {
+  constructor() {
+    super('Layout cancelled');
+    this.name = 'LayoutCancelledError';
+  }
+}
+
+export interface LayoutJob {
+  promise: Promise<LayoutResult>;
+  cancel: () => void;
+}
+
+export function runLayout(
+  method: LayoutMethod,
+  vectors: number[][],
+  nComponents: 2 | 3,
+  options: LayoutOptions = {},
+  onProgress?: LayoutProgress
+): LayoutJob {
+  if (typeof Worker === 'undefined') {
+    return {
+      promise: Promise.resolve().then(() => computeLayout(method, vectors, nComponents, options, onProgress)),
+      cancel: () => {}
+    };
+  }
+
+  const worker = new Worker(new URL('./layout.worker.ts', import.meta.url), { type: 'module' });
+  let rejectPromise: (error: Error) => void = () => {};
+
+  const promise = new Promise<LayoutResult>((resolve, reject) => {
+    rejectPromise = reject;
+
+    worker.onmessage = (event: MessageEvent<LayoutResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress, message.message);
+      } else if (message.type === 'result') {
+        worker.terminate();
+        resolve({ projections: message.projections, explainedVarianceRatio: message.explainedVarianceRatio });
+      } else {
+        worker.terminate();
+        reject(new Error(message.error));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Layout worker failed'));
+    };
+
+    const request: LayoutRequest = { method, vectors, nComponents, options };
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectPromise(new LayoutCancelledError());
+    }
+  };
+}
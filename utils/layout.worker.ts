@@ -0,0 +1,33 @@
+// Web Worker entry for the canvas layouts; UMAP and t-SNE take seconds on a
+// few thousand videos, so they run off the main thread. See layout-runner.ts.
+import { LayoutMethod, LayoutOptions, computeLayout } from './dimensionality-reduction';
+
+export interface LayoutRequest {
+  method: LayoutMethod;
+  vectors: number[][];
+  nComponents: 2 | 3;
+  options: LayoutOptions;
+}
+
+export type LayoutResponse =
+  | { type: 'progress'; progress: number; message: string }
+  | { type: 'result'; projections: number[][]; explainedVarianceRatio?: number[] }
+  | { type: 'error'; error: string };
+
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent<LayoutRequest>) => void) | null;
+  postMessage: (message: LayoutResponse) => void;
+};
+
+worker.onmessage = (event) => {
+  const { method, vectors, nComponents, options } = event.data;
+
+  try {
+    const result = computeLayout(method, vectors, nComponents, options, (progress, message) => {
+      worker.postMessage({ type: 'progress', progress, message });
+    });
+    worker.postMessage({ type: 'result', ...result });
+  } catch (error: any) {
+    worker.postMessage({ type: 'error', error: error.message || 'Layout failed' });
+  }
+};
@@ -0,0 +1,97 @@
+// Local sentence transformer embeddings using transformers.js (ONNX Runtime on CPU)
+// Weights are read from disk, so clustering works without network, quotas or
+// API keys. Pooling and normalization follow each model's sentence-transformers
+// config, which is what the Hugging Face Inference API returns, so the vectors
+// match the remote sentence-transformers approach.
+import path from 'path';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+
+export interface LocalEmbeddingModel {
+  name: string;
+  path: string; // directory under the models dir, same layout as the Hub repo
+  dimensions: number;
+  pooling: 'cls' | 'mean';
+  description: string;
+}
+
+// Keyed by the same model names the sentence-transformers approach uses
+export const LOCAL_EMBEDDING_MODELS: Record<string, LocalEmbeddingModel> = {
+  'BAAI/bge-small-en-v1.5': {
+    name: 'BAAI/bge-small-en-v1.5',
+    path: 'BAAI/bge-small-en-v1.5',
+    dimensions: 384,
+    pooling: 'cls',
+    description: 'Fast and accurate, good balance'
+  },
+  'all-MiniLM-L6-v2': {
+    name: 'all-MiniLM-L6-v2',
+    path: 'sentence-transformers/all-MiniLM-L6-v2',
+    dimensions: 384,
+    pooling: 'mean',
+    description: 'Smallest and fastest'
+  }
+};
+
+const DEFAULT_MODELS_DIR = '.odatai/models';
+
+export function getLocalModelsDir(): string {
+  return path.resolve(process.cwd(), process.env.ODATAI_MODELS_DIR || DEFAULT_MODELS_DIR);
+}
+
+// Loaded pipelines are kept for the life of the server process
+const pipelines = new Map<string, Promise<FeatureExtractionPipeline>>();
+
+function loadPipeline(model: LocalEmbeddingModel): Promise<FeatureExtractionPipeline> {
+  let loading = pipelines.get(model.name);
+
+  if (!loading) {
+    loading = (async () => {
+      const { pipeline, env } = await import('@huggingface/transformers');
+      // pipeline()'s overloads are too large for the type checker; pin the one we use
+      const createPipeline = pipeline as unknown as (
+        task: 'feature-extraction',
+        modelPath: string,
+        options: { dtype: 'fp32' }
+      ) => Promise<FeatureExtractionPipeline>;
+      const modelsDir = getLocalModelsDir();
+
+      env.allowLocalModels = true;
+      env.localModelPath = modelsDir;
+      // Downloads are opt-in; they land in the models dir so later runs are offline
+      env.allowRemoteModels = process.env.ODATAI_ALLOW_MODEL_DOWNLOAD === 'true';
+      env.cacheDir = modelsDir;
+
+      console.log(`[LOCAL EMBEDDINGS] Loading ${model.name} from ${path.join(modelsDir, model.path)}`);
+
+      try {
+        return await createPipeline('feature-extraction', model.path, { dtype: 'fp32' });
+      } catch (error: any) {
+        throw new Error(
+          `Could not load local model ${model.name}: ${error.message}. ` +
+          `Place the ONNX export in ${path.join(modelsDir, model.path)} or set ODATAI_ALLOW_MODEL_DOWNLOAD=true.`
+        );
+      }
+    })();
+
+    // Let a later request retry after a failed load (e.g. weights copied in since)
+    loading.catch(() => pipelines.delete(model.name));
+    pipelines.set(model.name, loading);
+  }
+
+  return loading;
+}
+
+export async function getLocalEmbeddings(
+  texts: string[],
+  modelName: string = 'BAAI/bge-small-en-v1.5'
+): Promise<number[][]> {
+  const model = LOCAL_EMBEDDING_MODELS[modelName];
+  if (!model) {
+    throw new Error(`No local embedding model named ${modelName}`);
+  }
+
+  const extractor = await loadPipeline(model);
+  const output = await extractor(texts, { pooling: model.pooling, normalize: true });
+
+  return output.tolist() as number[][];
+}
@@ -0,0 +1,71 @@
+import { Migration } from './types';
+
+// The original urls / videos / analysis_results tables
+const migration: Migration = {
+  version: 1,
+  name: 'create_core_tables',
+  statements: (db) => [
+    `
+      CREATE TABLE IF NOT EXISTS ${db.table('urls')} (
+        id UUID DEFAULT generateUUIDv4(),
+        url String,
+        added_at DateTime DEFAULT now(),
+        processed Boolean DEFAULT false,
+        INDEX idx_url url TYPE bloom_filter GRANULARITY 1
+      ) ENGINE = MergeTree()
+      ORDER BY added_at
+      SETTINGS index_granularity = 8192
+    `,
+    `
+      CREATE TABLE IF NOT EXISTS ${db.table('videos')} (
+        id String,
+        url String,
+        title String,
+        thumbnail String,
+        duration String,
+        view_count Nullable(UInt64),
+        like_count Nullable(UInt64),
+        comment_count Nullable(UInt64),
+        published_at Nullable(DateTime),
+        channel_id Nullable(String),
+        channel_title Nullable(String),
+        description Nullable(String),
+        tags Array(String) DEFAULT [],
+        category_id Nullable(String),
+        embedding Array(Float32) DEFAULT [],
+        embedding_model Nullable(String),
+        embedding_dimensions Nullable(UInt16),
+        embedding_generated_at Nullable(DateTime),
+        processed_for_clustering Boolean DEFAULT false,
+        language_detected Nullable(String),
+        language_confidence Nullable(Float32),
+        added_at DateTime DEFAULT now(),
+        updated_at DateTime DEFAULT now(),
+        INDEX idx_id id TYPE bloom_filter GRANULARITY 1,
+        INDEX idx_url url TYPE bloom_filter GRANULARITY 1,
+        INDEX idx_title title TYPE bloom_filter GRANULARITY 1,
+        INDEX idx_channel channel_id TYPE bloom_filter GRANULARITY 1,
+        INDEX idx_embedding_model embedding_model TYPE bloom_filter GRANULARITY 1
+      ) ENGINE = ReplacingMergeTree(updated_at)
+      ORDER BY id
+      SETTINGS index_granularity = 8192
+    `,
+    `
+      CREATE TABLE IF NOT EXISTS ${db.table('analysis_results')} (
+        id UUID DEFAULT generateUUIDv4(),
+        session_id String,
+        video_count UInt32,
+        cluster_count UInt32,
+        embedding_model String,
+        clustering_algorithm String,
+        created_at DateTime DEFAULT now(),
+        results String,
+        INDEX idx_session session_id TYPE bloom_filter GRANULARITY 1
+      ) ENGINE = MergeTree()
+      ORDER BY created_at
+      SETTINGS index_granularity = 8192
+    `
+  ]
+};
+
+export default migration;
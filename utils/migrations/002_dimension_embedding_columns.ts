@@ -0,0 +1,24 @@
+import { EMBEDDING_DIMENSIONS, embeddingColumnFor } from '../clickhouse';
+import { Migration } from './types';
+
+// Dedicated per-dimension embedding columns used by /api/generate-embeddings.
+// Existing single-column embeddings of a matching size are copied across.
+const migration: Migration = {
+  version: 2,
+  name: 'dimension_embedding_columns',
+  statements: (db) => [
+    ...EMBEDDING_DIMENSIONS.map(dimensions =>
+      `ALTER TABLE ${db.table('videos')} ADD COLUMN IF NOT EXISTS ${embeddingColumnFor(dimensions)} Array(Float32) DEFAULT []`
+    ),
+    ...EMBEDDING_DIMENSIONS.map(dimensions => ({
+      sql: `
+        ALTER TABLE ${db.table('videos')}
+        UPDATE ${embeddingColumnFor(dimensions)} = embedding
+        WHERE length(embedding) = ${dimensions} AND length(${embeddingColumnFor(dimensions)}) = 0
+      `,
+      settings: { mutations_sync: 2 }
+    }))
+  ]
+};
+
+export default migration;
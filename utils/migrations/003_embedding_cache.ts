@@ -0,0 +1,23 @@
+import { Migration } from './types';
+
+// Content-addressed embedding cache shared by every embedding provider, see
+// utils/embedding-cache.ts. Rows are keyed by sha256(model, dimensions, text).
+const migration: Migration = {
+  version: 3,
+  name: 'embedding_cache',
+  statements: (db) => [
+    `
+      CREATE TABLE IF NOT EXISTS ${db.table('embedding_cache')} (
+        key FixedString(64),
+        model LowCardinality(String),
+        dimensions UInt16,
+        text String,
+        embedding Array(Float32),
+        created_at DateTime DEFAULT now()
+      ) ENGINE = ReplacingMergeTree(created_at)
+      ORDER BY key
+    `
+  ]
+};
+
+export default migration;
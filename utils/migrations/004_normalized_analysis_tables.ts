@@ -0,0 +1,53 @@
+import { Migration } from './types';
+
+// Queryable copies of saved analyses, see utils/analysis-store.ts: one row per
+// run, per (run, video) assignment and per (run, cluster). analysis_results
+// keeps the full JSON for reloading a run; runs saved before this migration
+// exist only there.
+const migration: Migration = {
+  version: 4,
+  name: 'normalized_analysis_tables',
+  statements: (db) => [
+    `
+      CREATE TABLE IF NOT EXISTS ${db.table('analysis_runs')} (
+        run_id String,
+        created_at DateTime DEFAULT now(),
+        video_count UInt32,
+        cluster_count UInt32,
+        noise_count UInt32 DEFAULT 0,
+        embedding_model String,
+        clustering_algorithm LowCardinality(String),
+        metric LowCardinality(String),
+        seed Nullable(UInt32),
+        input_hash String DEFAULT '',
+        silhouette Nullable(Float32),
+        INDEX idx_run run_id TYPE bloom_filter GRANULARITY 1
+      ) ENGINE = MergeTree()
+      ORDER BY (created_at, run_id)
+    `,
+    `
+      CREATE TABLE IF NOT EXISTS ${db.table('cluster_assignments')} (
+        run_id String,
+        video_id String,
+        cluster_id Int32,
+        distance Float32,
+        probability Nullable(Float32),
+        INDEX idx_run run_id TYPE bloom_filter GRANULARITY 1
+      ) ENGINE = MergeTree()
+      ORDER BY (video_id, run_id)
+    `,
+    `
+      CREATE TABLE IF NOT EXISTS ${db.table('clusters')} (
+        run_id String,
+        cluster_id Int32,
+        size UInt32,
+        top_words Array(String),
+        centroid Array(Float32),
+        silhouette Nullable(Float32)
+      ) ENGINE = MergeTree()
+      ORDER BY (run_id, cluster_id)
+    `
+  ]
+};
+
+export default migration;
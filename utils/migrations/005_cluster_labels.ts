@@ -0,0 +1,25 @@
+import { Migration } from './types';
+
+// Generated and analyst-edited cluster titles of saved runs, see
+// utils/cluster-labelers.ts. Edits insert a newer row, so the latest version
+// of a label wins on merge (read with FINAL).
+const migration: Migration = {
+  version: 5,
+  name: 'cluster_labels',
+  statements: (db) => [
+    `
+      CREATE TABLE IF NOT EXISTS ${db.table('cluster_labels')} (
+        run_id String,
+        cluster_id Int32,
+        title String,
+        description String,
+        model String,
+        edited Bool DEFAULT false,
+        updated_at DateTime64(3) DEFAULT now64(3)
+      ) ENGINE = ReplacingMergeTree(updated_at)
+      ORDER BY (run_id, cluster_id)
+    `
+  ]
+};
+
+export default migration;
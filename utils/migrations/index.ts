@@ -0,0 +1,19 @@
+import { Migration } from './types';
+import createCoreTables from './001_create_core_tables';
+import dimensionEmbeddingColumns from './002_dimension_embedding_columns';
+import embeddingCache from './003_embedding_cache';
+import normalizedAnalysisTables from './004_normalized_analysis_tables';
+import clusterLabels from './005_cluster_labels';
+
+export type { Migration, MigrationStatement } from './types';
+
+// Append new migrations here; versions must be strictly increasing
+export const MIGRATIONS: Migration[] = [
+  createCoreTables,
+  dimensionEmbeddingColumns,
+  embeddingCache,
+  normalizedAnalysisTables,
+  clusterLabels
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
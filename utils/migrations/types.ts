@@ -0,0 +1,14 @@
+import { Database, QuerySettings } from '../clickhouse';
+
+export interface MigrationStatement {
+  sql: string;
+  settings?: QuerySettings;
+}
+
+// A single schema change. Statements must be safe to re-run (IF NOT EXISTS etc.)
+// because databases created before schema_migrations existed replay them all.
+export interface Migration {
+  version: number;
+  name: string;
+  statements: (db: Database) => Array<string | MigrationStatement>;
+}
@@ -0,0 +1,38 @@
+// Seeded pseudo-random numbers for reproducible layouts and clustering
+// mulberry32: tiny, fast and good enough for initialization and sampling.
+export type RandomSource = () => number;
+
+export const DEFAULT_SEED = 42;
+
+export function createRandom(seed: number = DEFAULT_SEED): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal sample (Box-Muller)
+export function randomGaussian(random: RandomSource): number {
+  let u = 0;
+  while (u === 0) u = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// Integer in [0, max)
+export function randomInt(random: RandomSource, max: number): number {
+  return Math.floor(random() * max);
+}
+
+// Stable 32-bit seed for a string (FNV-1a), e.g. one stream per word
+export function seedFromString(text: string, seed: number = DEFAULT_SEED): number {
+  let hash = (0x811C9DC5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
@@ -0,0 +1,107 @@
+// Representative videos of a cluster
+// Maximal Marginal Relevance: the first pick is the point closest to the
+// centroid, each further pick maximizes
+//   lambda * -distance(point, centroid) + (1 - lambda) * min distance(point, picked)
+// so the examples are typical of the cluster without all saying the same
+// thing. The medoid is the member with the smallest total distance to all
+// others. Client-safe, like cluster-summaries.ts.
+import type { ClusterResult } from './clustering';
+import { DistanceMetric, getDistance } from './distance';
+
+export const DEFAULT_REPRESENTATIVE_COUNT = 3;
+export const DEFAULT_MMR_LAMBDA = 0.7;
+const MAX_REPRESENTATIVES = 20;
+// The medoid is searched among this many points closest to the centroid, which
+// keeps large clusters at O(n) distance computations per candidate
+const MEDOID_CANDIDATES = 50;
+
+export interface ClusterRepresentative {
+  index?: number; // position in the clustered input
+  title: string;
+  distance: number; // to the centroid
+  videoId?: string;
+  thumbnail?: string;
+}
+
+export interface RepresentativeOptions {
+  count?: number;
+  lambda?: number; // 1 = closest to the centroid only, 0 = most diverse
+  metric?: DistanceMetric;
+}
+
+export function youtubeThumbnailUrl(videoId: string): string {
+  return `https://i.ytimg.com/vi/${encodeURIComponent(videoId)}/mqdefault.jpg`;
+}
+
+// Positions (within points) of the MMR picks, best first
+export function selectRepresentatives(
+  points: ClusterResult[],
+  centroid: number[],
+  options: RepresentativeOptions = {}
+): number[] {
+  const { count = DEFAULT_REPRESENTATIVE_COUNT, lambda = DEFAULT_MMR_LAMBDA, metric = 'euclidean' } = options;
+  const distanceTo = getDistance(metric);
+  const toCentroid = points.map(point => distanceTo(point.vector, centroid));
+  // Distance from every point to its nearest pick so far
+  const toPicked = new Array(points.length).fill(Infinity);
+  const picked: number[] = [];
+
+  while (picked.length < Math.min(count, MAX_REPRESENTATIVES, points.length)) {
+    let best = -1;
+    let bestScore = -Infinity;
+    points.forEach((_, i) => {
+      if (picked.includes(i)) return;
+      const diversity = picked.length === 0 ? 0 : toPicked[i];
+      const score = lambda * -toCentroid[i] + (1 - lambda) * diversity;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+
+    picked.push(best);
+    points.forEach((point, i) => {
+      toPicked[i] = Math.min(toPicked[i], i === best ? 0 : distanceTo(point.vector, points[best].vector));
+    });
+  }
+
+  return picked;
+}
+
+// Position (within points) of the medoid, -1 for an empty cluster
+export function findMedoid(points: ClusterResult[], centroid: number[], metric: DistanceMetric = 'euclidean'): number {
+  const distanceTo = getDistance(metric);
+  const candidates = points
+    .map((point, i) => ({ i, distance: distanceTo(point.vector, centroid) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MEDOID_CANDIDATES);
+
+  let medoid = -1;
+  let smallestTotal = Infinity;
+  candidates.forEach(({ i }) => {
+    const total = points.reduce((sum, point) => sum + distanceTo(point.vector, points[i].vector), 0);
+    if (total < smallestTotal) {
+      medoid = i;
+      smallestTotal = total;
+    }
+  });
+  return medoid;
+}
+
+// YouTube video IDs are 11 URL-safe base64 characters; other IDs get no
+// derived thumbnail
+const YOUTUBE_VIDEO_ID = /^[A-Za-z0-9_-]{11}$/;
+
+// Video details come from the point itself (see attachVideoRecords)
+export function toRepresentative(point: ClusterResult): ClusterRepresentative {
+  const thumbnail = typeof point.metadata?.thumbnail === 'string' && point.metadata.thumbnail
+    ? point.metadata.thumbnail
+    : point.videoId && YOUTUBE_VIDEO_ID.test(point.videoId) ? youtubeThumbnailUrl(point.videoId) : undefined;
+  return {
+    ...(point.index !== undefined ? { index: point.index } : {}),
+    title: point.title,
+    distance: point.distance,
+    ...(point.videoId ? { videoId: point.videoId } : {}),
+    ...(thumbnail ? { thumbnail } : {})
+  };
+}
@@ -0,0 +1,85 @@
+// Run manifests: everything needed to reproduce a clustering run
+// Stored with the analysis results so a shared result can be re-run with the
+// same seed, model, parameters and input. The input hash identifies the exact
+// titles (in order) that were clustered.
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import packageJson from '../package.json';
+import type { ClusteringConfig } from './clustering';
+
+export const RUN_MANIFEST_VERSION = 1;
+
+// Libraries whose versions can change the clusters
+const MANIFEST_LIBRARIES = ['ml-kmeans', 'natural', '@huggingface/transformers', 'next'];
+
+export interface RunManifest {
+  version: number;
+  createdAt: string;
+  seed: number;
+  inputHash: string; // sha256 of the clustered titles, newline-separated
+  input: {
+    titles: number;
+    clustered: number;
+    preExistingEmbeddings: boolean;
+  };
+  filters: {
+    language: string;
+    minConfidence: number;
+    removed: number;
+  };
+  embedding: {
+    provider: string;
+    model: string | null;
+    dimensions: number;
+  };
+  clustering: {
+    algorithm: ClusteringConfig['algorithm'];
+    requestedK: number | 'auto';
+    k: number; // clusters found
+    metric: string;
+    linkage?: string;
+    minClusterSize?: number;
+    minSamples?: number;
+    maxIterations?: number;
+    tolerance?: number;
+  };
+  libraries: Record<string, string>;
+}
+
+let libraryVersions: Record<string, string> | null = null;
+
+// Installed versions, falling back to the ranges declared in package.json
+function getLibraryVersions(): Record<string, string> {
+  if (libraryVersions) return libraryVersions;
+
+  const declared: Record<string, string> = packageJson.dependencies;
+  libraryVersions = { odatai: packageJson.version, node: process.version };
+
+  MANIFEST_LIBRARIES.forEach(name => {
+    try {
+      const installed = JSON.parse(readFileSync(path.join(process.cwd(), 'node_modules', name, 'package.json'), 'utf8'));
+      libraryVersions![name] = installed.version;
+    } catch {
+      libraryVersions![name] = declared[name] || 'unknown';
+    }
+  });
+  return libraryVersions;
+}
+
+export function hashTitles(titles: string[]): string {
+  return createHash('sha256').update(titles.join('\n')).digest('hex');
+}
+
+export function buildRunManifest(
+  details: Omit<RunManifest, 'version' | 'createdAt' | 'libraries' | 'inputHash'> & { clusteredTitles: string[] }
+): RunManifest {
+  const { clusteredTitles, ...rest } = details;
+  return {
+    version: RUN_MANIFEST_VERSION,
+    createdAt: new Date().toISOString(),
+    ...rest,
+    inputHash: hashTitles(clusteredTitles),
+    libraries: getLibraryVersions()
+  };
+}
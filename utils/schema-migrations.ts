@@ -0,0 +1,108 @@
+// Versioned schema migrations for the ClickHouse tables
+// Applied versions are recorded in schema_migrations; routes call
+// assertSchemaCurrent before touching columns that later migrations added.
+import { Database } from './clickhouse';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS } from './migrations';
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  upToDate: boolean;
+  applied: AppliedMigration[];
+  pending: Array<{ version: number; name: string }>;
+}
+
+export class SchemaOutdatedError extends Error {
+  constructor(currentVersion: number) {
+    super(`Database schema is at version ${currentVersion} but version ${LATEST_SCHEMA_VERSION} is required. Run the "migrate" action first.`);
+    this.name = 'SchemaOutdatedError';
+  }
+}
+
+async function ensureMigrationsTable(db: Database) {
+  await db.command(`
+    CREATE TABLE IF NOT EXISTS ${db.table('schema_migrations')} (
+      version UInt32,
+      name String,
+      applied_at DateTime DEFAULT now()
+    ) ENGINE = ReplacingMergeTree(applied_at)
+    ORDER BY version
+  `);
+}
+
+async function getAppliedMigrations(db: Database): Promise<AppliedMigration[]> {
+  const exists = await db.query<{ result: number }>(`EXISTS TABLE ${db.table('schema_migrations')}`);
+  if (!Number(exists[0]?.result)) return [];
+
+  const rows = await db.query<AppliedMigration>(`
+    SELECT version, any(name) AS name, min(applied_at) AS applied_at
+    FROM ${db.table('schema_migrations')}
+    GROUP BY version
+    ORDER BY version
+  `);
+  return rows.map(row => ({ ...row, version: Number(row.version) }));
+}
+
+export async function getMigrationStatus(db: Database): Promise<MigrationStatus> {
+  const applied = await getAppliedMigrations(db);
+  const appliedVersions = new Set(applied.map(migration => migration.version));
+  const pending = MIGRATIONS
+    .filter(migration => !appliedVersions.has(migration.version))
+    .map(({ version, name }) => ({ version, name }));
+  const currentVersion = applied.reduce((max, migration) => Math.max(max, migration.version), 0);
+
+  return {
+    currentVersion,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    upToDate: pending.length === 0,
+    applied,
+    pending
+  };
+}
+
+// Apply every pending migration in version order
+export async function migrate(
+  db: Database,
+  onProgress?: (version: number, name: string) => void
+): Promise<{ applied: Array<{ version: number; name: string }>; status: MigrationStatus }> {
+  await ensureMigrationsTable(db);
+
+  const before = await getMigrationStatus(db);
+  const appliedNow: Array<{ version: number; name: string }> = [];
+
+  for (const migration of MIGRATIONS) {
+    if (!before.pending.some(pending => pending.version === migration.version)) continue;
+
+    onProgress?.(migration.version, migration.name);
+    console.log(`[MIGRATIONS] Applying ${migration.version}_${migration.name} to ${db.name}`);
+
+    for (const statement of migration.statements(db)) {
+      if (typeof statement === 'string') {
+        await db.command(statement);
+      } else {
+        await db.command(statement.sql, {}, statement.settings);
+      }
+    }
+
+    await db.insert('schema_migrations', [{ version: migration.version, name: migration.name }]);
+    appliedNow.push({ version: migration.version, name: migration.name });
+  }
+
+  return {
+    applied: appliedNow,
+    status: await getMigrationStatus(db)
+  };
+}
+
+export async function assertSchemaCurrent(db: Database): Promise<void> {
+  const status = await getMigrationStatus(db);
+  if (!status.upToDate) {
+    throw new SchemaOutdatedError(status.currentVersion);
+  }
+}
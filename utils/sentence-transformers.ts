@@ -131,262 +131,6 @@ export async function getSentenceEmbeddings(
   }
 }
 
-// Alternative: Use free inference without API key (rate limited)
-export async function getEmbeddingsFree(
-  texts: string[]
-): Promise<number[][]> {
-  // Use the free tier (may be rate limited)
-  return getSentenceEmbeddings(
-    texts,
-    'BAAI/bge-small-en-v1.5' // Using BGE model that actually works
-  );
-}
-
-// NO FALLBACK EMBEDDINGS - We must fail properly if API doesn't work
-// Removed fallback function completely - better to fail than give bad results
-
-// Process YouTube titles with Sentence Transformers
-export async function processYouTubeTitles(
-  titles: string[],
-  config?: Partial<SentenceTransformerConfig>
-): Promise<{
-  embeddings: number[][];
-  model: string;
-  dimensions: number;
-}> {
-  const model = config?.model || 'BAAI/bge-small-en-v1.5'; // Default to working model
-  const dimensions = config?.dimensions || 384;
-
-  try {
-    console.log(`Getting embeddings for ${titles.length} titles using ${model}...`);
-
-    // Batch process if needed (API might have limits) - much smaller batches for reliability
-    const isLargerModel = model.includes('bge-base') || model.includes('bge-large');
-
-    // Use much more aggressive batch sizes for BGE Large to prevent timeouts
-    let batchSize;
-    if (titles.length > 500) {
-      // For large datasets (500+ videos), use tiny batches for BGE Large
-      batchSize = isLargerModel ? 8 : 25;
-    } else if (titles.length > 200) {
-      // For medium datasets (200-500 videos), use small batches
-      batchSize = isLargerModel ? 12 : 40;
-    } else {
-      // For small datasets (<200 videos), use normal batches
-      batchSize = isLargerModel ? 20 : 60;
-    }
-    const allEmbeddings: number[][] = [];
-
-    for (let i = 0; i < titles.length; i += batchSize) {
-      const batch = titles.slice(i, i + batchSize);
-      const batchEmbeddings = await getSentenceEmbeddings(
-        batch,
-        model,
-        config?.apiKey
-      );
-      allEmbeddings.push(...batchEmbeddings);
-
-      // Small delay to respect rate limits - longer for larger models and datasets
-      if (i + batchSize < titles.length) {
-        let delay;
-        if (titles.length > 500) {
-          // For large datasets, use longer delays
-          delay = isLargerModel ? 1000 : 700; // 1s for larger models, 700ms for smaller
-        } else if (titles.length > 200) {
-          // For medium datasets, moderate delays
-          delay = isLargerModel ? 700 : 400; // 700ms for larger models, 400ms for smaller
-        } else {
-          // For small datasets, minimal delays
-          delay = isLargerModel ? 300 : 100; // 300ms for larger models, 100ms for smaller
-        }
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
-
-    console.log(`Successfully generated ${allEmbeddings.length} embeddings`);
-
-    return {
-      embeddings: allEmbeddings,
-      model,
-      dimensions
-    };
-
-  } catch (error) {
-    console.error('Failed to get sentence embeddings:', error);
-    // NO FALLBACK - Better to fail than provide bad embeddings
-    throw new Error(`Failed to generate embeddings: ${error}. Please check your internet connection and try again.`);
-  }
-}
-
-// Chunked processing for very large datasets (800+ videos)
-export async function processYouTubeTitlesInChunks(
-  titles: string[],
-  options?: {
-    config?: Partial<SentenceTransformerConfig>;
-    onProgress?: (chunk: number, totalChunks: number, message: string) => void;
-    chunkSize?: number;
-  }
-): Promise<{
-  embeddings: number[][];
-  model: string;
-  dimensions: number;
-}> {
-  const config = options?.config;
-  const onProgress = options?.onProgress;
-  const chunkSize = options?.chunkSize || (titles.length > 800 ? 75 : 150);
-  const model = config?.model || 'BAAI/bge-small-en-v1.5';
-  const dimensions = config?.dimensions || 384;
-
-  console.log(`Processing ${titles.length} titles in chunks of ${chunkSize} for BGE Large compatibility`);
-
-  const totalChunks = Math.ceil(titles.length / chunkSize);
-  const allEmbeddings: number[][] = [];
-
-  for (let i = 0; i < totalChunks; i++) {
-    const startIdx = i * chunkSize;
-    const endIdx = Math.min(startIdx + chunkSize, titles.length);
-    const chunk = titles.slice(startIdx, endIdx);
-
-    if (onProgress) {
-      onProgress(i + 1, totalChunks, `Processing chunk ${i + 1}/${totalChunks}: ${chunk.length} videos (${startIdx + 1}-${endIdx})`);
-    }
-
-    try {
-      const chunkResult = await processYouTubeTitlesWithProgress(chunk, {
-        config,
-        onProgress: (batch, totalBatches, message) => {
-          if (onProgress) {
-            onProgress(i + 1, totalChunks, `Chunk ${i + 1}/${totalChunks} - ${message}`);
-          }
-        }
-      });
-
-      allEmbeddings.push(...chunkResult.embeddings);
-
-      // Longer pause between chunks for BGE Large
-      if (i < totalChunks - 1) {
-        await new Promise(resolve => setTimeout(resolve, 2000)); // 2 second pause between chunks
-      }
-
-    } catch (error) {
-      console.error(`Failed to process chunk ${i + 1}:`, error);
-      if (onProgress) {
-        onProgress(i + 1, totalChunks, `ERROR in chunk ${i + 1}: ${error}`);
-      }
-      throw new Error(`Chunk processing failed at chunk ${i + 1}: ${error}`);
-    }
-  }
-
-  return {
-    embeddings: allEmbeddings,
-    model,
-    dimensions
-  };
-}
-
-// Enhanced version with progress callback support
-export async function processYouTubeTitlesWithProgress(
-  titles: string[],
-  options?: {
-    config?: Partial<SentenceTransformerConfig>;
-    onProgress?: (batch: number, totalBatches: number, message: string) => void;
-  }
-): Promise<{
-  embeddings: number[][];
-  model: string;
-  dimensions: number;
-}> {
-  const config = options?.config;
-  const onProgress = options?.onProgress;
-  const model = config?.model || 'BAAI/bge-small-en-v1.5'; // Default to working model
-  const dimensions = config?.dimensions || 384;
-
-  try {
-    console.log(`Getting embeddings for ${titles.length} titles using ${model}...`);
-
-    // Batch process if needed (API might have limits) - much smaller batches for reliability
-    const isLargerModel = model.includes('bge-base') || model.includes('bge-large');
-
-    // Use much more aggressive batch sizes for BGE Large to prevent timeouts
-    let batchSize;
-    if (titles.length > 500) {
-      // For large datasets (500+ videos), use tiny batches for BGE Large
-      batchSize = isLargerModel ? 8 : 25;
-    } else if (titles.length > 200) {
-      // For medium datasets (200-500 videos), use small batches
-      batchSize = isLargerModel ? 12 : 40;
-    } else {
-      // For small datasets (<200 videos), use normal batches
-      batchSize = isLargerModel ? 20 : 60;
-    }
-    const totalBatches = Math.ceil(titles.length / batchSize);
-    const allEmbeddings: number[][] = [];
-
-    for (let i = 0; i < titles.length; i += batchSize) {
-      const batchNumber = Math.floor(i / batchSize) + 1;
-      const batch = titles.slice(i, i + batchSize);
-
-      // Report progress
-      if (onProgress) {
-        const startVideo = i + 1;
-        const endVideo = Math.min(i + batchSize, titles.length);
-        onProgress(
-          batchNumber,
-          totalBatches,
-          `Processing batch ${batchNumber}/${totalBatches}: Generating embeddings for videos ${startVideo}-${endVideo}...`
-        );
-      }
-
-      try {
-        const batchEmbeddings = await getSentenceEmbeddings(
-          batch,
-          model,
-          config?.apiKey
-        );
-        allEmbeddings.push(...batchEmbeddings);
-      } catch (batchError: any) {
-        console.error(`Failed to process batch ${batchNumber}:`, batchError);
-        if (onProgress) {
-          onProgress(batchNumber, totalBatches, `Error in batch ${batchNumber}: ${batchError.message}`);
-        }
-        throw batchError;
-      }
-
-      // Small delay to respect rate limits - longer for larger models and datasets
-      if (i + batchSize < titles.length) {
-        let delay;
-        if (titles.length > 500) {
-          // For large datasets, use longer delays
-          delay = isLargerModel ? 1000 : 700; // 1s for larger models, 700ms for smaller
-        } else if (titles.length > 200) {
-          // For medium datasets, moderate delays
-          delay = isLargerModel ? 700 : 400; // 700ms for larger models, 400ms for smaller
-        } else {
-          // For small datasets, minimal delays
-          delay = isLargerModel ? 300 : 100; // 300ms for larger models, 100ms for smaller
-        }
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
-
-    console.log(`Successfully generated ${allEmbeddings.length} embeddings`);
-
-    return {
-      embeddings: allEmbeddings,
-      model,
-      dimensions
-    };
-
-  } catch (error) {
-    console.error('Failed to get sentence embeddings:', error);
-    // NO FALLBACK - Better to fail than provide bad embeddings
-    if (onProgress) {
-      onProgress(1, 1, 'ERROR: Failed to generate embeddings');
-    }
-    throw new Error(`Failed to generate embeddings: ${error}. Please check your internet connection and try again.`);
-  }
-}
-
 // Compare two embeddings using cosine similarity
 export function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length !== b.length) {
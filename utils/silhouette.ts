@@ -0,0 +1,168 @@
+// Silhouette scores for cluster quality, exact or estimated from a sample
+// Up to sampleSize points are scored exactly. Larger inputs are scored on a
+// stratified sample: each cluster contributes points in proportion to its size
+// (at least two), silhouettes are computed within the sample, and cluster means
+// are weighted back by cluster size. The confidence interval comes from the
+// stratified-sampling variance of the scored points (it ignores the noise in
+// each point's within-sample distances, so it runs slightly narrow) and
+// shrinks to a point for exact scores.
+import { DistanceMetric, getDistance } from './distance';
+import { NOISE_LABEL } from './hdbscan';
+import { RandomSource, createRandom, randomInt } from './random';
+
+export const DEFAULT_SILHOUETTE_SAMPLE_SIZE = 1000;
+
+const Z_SCORES = { 0.9: 1.645, 0.95: 1.96, 0.99: 2.576 };
+
+export interface SilhouetteOptions {
+  metric?: DistanceMetric;
+  sampleSize?: number;
+  confidenceLevel?: keyof typeof Z_SCORES;
+  random?: RandomSource;
+}
+
+export interface ClusterSilhouette {
+  clusterId: number;
+  score: number; // mean silhouette of the cluster's scored points
+  size: number;
+  sampleSize: number;
+}
+
+export interface SilhouetteResult {
+  score: number;
+  confidenceInterval: [number, number];
+  sampled: boolean;
+  sampleSize: number;
+  clusters: ClusterSilhouette[];
+  points: { index: number; score: number }[]; // scored points only, by input index
+}
+
+// Silhouette of every point given its cluster label (0..k-1) and pairwise
+// distances by position. Points alone in their cluster score 0.
+export function silhouetteValues(
+  labels: ArrayLike<number>,
+  distanceAt: (a: number, b: number) => number
+): Float64Array {
+  const m = labels.length;
+  let k = 0;
+  for (let i = 0; i < m; i++) k = Math.max(k, labels[i] + 1);
+
+  const values = new Float64Array(m);
+  const clusterTotals = new Float64Array(k);
+  const clusterCounts = new Int32Array(k);
+
+  for (let a = 0; a < m; a++) {
+    clusterTotals.fill(0);
+    clusterCounts.fill(0);
+    for (let b = 0; b < m; b++) {
+      if (a === b) continue;
+      clusterTotals[labels[b]] += distanceAt(a, b);
+      clusterCounts[labels[b]]++;
+    }
+
+    const own = labels[a];
+    if (clusterCounts[own] === 0) continue;
+
+    const cohesion = clusterTotals[own] / clusterCounts[own];
+    let separation = Infinity;
+    for (let c = 0; c < k; c++) {
+      if (c !== own && clusterCounts[c] > 0) {
+        separation = Math.min(separation, clusterTotals[c] / clusterCounts[c]);
+      }
+    }
+    if (separation === Infinity) continue;
+
+    const denominator = Math.max(cohesion, separation);
+    values[a] = denominator === 0 ? 0 : (separation - cohesion) / denominator;
+  }
+
+  return values;
+}
+
+// Noise points (NOISE_LABEL) are left out, as in HDBSCAN's own validity measures
+export function computeSilhouette(
+  vectors: number[][],
+  labels: number[],
+  options: SilhouetteOptions = {}
+): SilhouetteResult {
+  const {
+    metric = 'euclidean',
+    sampleSize = DEFAULT_SILHOUETTE_SAMPLE_SIZE,
+    confidenceLevel = 0.95
+  } = options;
+  const random = options.random || createRandom();
+  const distance = getDistance(metric);
+
+  const members = new Map<number, number[]>();
+  labels.forEach((label, index) => {
+    if (label === NOISE_LABEL) return;
+    if (!members.has(label)) members.set(label, []);
+    members.get(label)!.push(index);
+  });
+  const clusterIds = [...members.keys()].sort((a, b) => a - b);
+  const total = clusterIds.reduce((sum, id) => sum + members.get(id)!.length, 0);
+
+  if (clusterIds.length < 2) {
+    return { score: 0, confidenceInterval: [0, 0], sampled: false, sampleSize: 0, clusters: [], points: [] };
+  }
+
+  // Stratified sample; partial Fisher-Yates within each cluster
+  const sampled = total > sampleSize;
+  const strata = clusterIds.map(id => {
+    const indices = members.get(id)!.slice();
+    const take = sampled
+      ? Math.min(indices.length, Math.max(2, Math.round(sampleSize * indices.length / total)))
+      : indices.length;
+    for (let i = 0; i < take; i++) {
+      const j = i + randomInt(random, indices.length - i);
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    return { id, size: members.get(id)!.length, indices: indices.slice(0, take) };
+  });
+
+  const sample = strata.flatMap(stratum => stratum.indices);
+  const sampleLabels = new Int32Array(strata.flatMap((stratum, position) => stratum.indices.map(() => position)));
+  const m = sample.length;
+
+  const distances = new Float64Array(m * m);
+  for (let a = 0; a < m; a++) {
+    for (let b = a + 1; b < m; b++) {
+      const d = distance(vectors[sample[a]], vectors[sample[b]]);
+      distances[a * m + b] = d;
+      distances[b * m + a] = d;
+    }
+  }
+  const values = silhouetteValues(sampleLabels, (a, b) => distances[a * m + b]);
+
+  let score = 0;
+  let variance = 0;
+  let offset = 0;
+  const clusters = strata.map(stratum => {
+    const count = stratum.indices.length;
+    const scores = values.subarray(offset, offset + count);
+    offset += count;
+
+    const mean = scores.reduce((sum, value) => sum + value, 0) / count;
+    const weight = stratum.size / total;
+    score += weight * mean;
+
+    // Variance of the stratum mean with the finite population correction
+    if (count > 1 && count < stratum.size) {
+      const spread = scores.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1);
+      variance += weight * weight * (1 - count / stratum.size) * spread / count;
+    }
+
+    return { clusterId: stratum.id, score: mean, size: stratum.size, sampleSize: count };
+  });
+
+  const margin = Z_SCORES[confidenceLevel] * Math.sqrt(variance);
+
+  return {
+    score,
+    confidenceInterval: [Math.max(-1, score - margin), Math.min(1, score + margin)],
+    sampled,
+    sampleSize: m,
+    clusters,
+    points: sample.map((index, position) => ({ index, score: values[position] }))
+  };
+}
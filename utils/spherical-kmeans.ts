@@ -0,0 +1,135 @@
+// Spherical K-means for normalized text embeddings
+// Points and centroids are kept on the unit sphere and compared by cosine
+// similarity, the measure embedding models are trained for. Each centroid is the
+// normalized sum of its members. The result has the same shape as ml-kmeans.
+import { normalizeVector } from './distance';
+import { RandomSource, createRandom, randomInt } from './random';
+
+export interface SphericalKMeansOptions {
+  initialization?: 'kmeans++' | 'random';
+  maxIterations?: number;
+  tolerance?: number; // largest centroid shift (1 - cosine) that counts as converged
+  random?: RandomSource;
+}
+
+export interface SphericalKMeansResult {
+  clusters: number[]; // cluster index per point
+  centroids: number[][]; // unit length
+  iterations: number;
+  converged: boolean;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// k-means++ seeding with cosine distance
+function seedCentroids(points: number[][], k: number, initialization: 'kmeans++' | 'random', random: RandomSource): number[][] {
+  const n = points.length;
+
+  if (initialization === 'random') {
+    const indices = Array.from({ length: n }, (_, i) => i);
+    for (let i = 0; i < k; i++) {
+      const j = i + randomInt(random, n - i);
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    return indices.slice(0, k).map(i => points[i].slice());
+  }
+
+  const centroids = [points[randomInt(random, n)].slice()];
+  const nearest = new Float64Array(n).fill(Infinity);
+
+  while (centroids.length < k) {
+    const latest = centroids[centroids.length - 1];
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+      const distance = Math.max(0, 1 - dot(points[i], latest));
+      nearest[i] = Math.min(nearest[i], distance * distance);
+      total += nearest[i];
+    }
+
+    // All remaining points coincide with a centroid; any choice is as good
+    if (total === 0) {
+      centroids.push(points[randomInt(random, n)].slice());
+      continue;
+    }
+
+    let target = random() * total;
+    let chosen = n - 1;
+    for (let i = 0; i < n; i++) {
+      target -= nearest[i];
+      if (target <= 0) {
+        chosen = i;
+        break;
+      }
+    }
+    centroids.push(points[chosen].slice());
+  }
+
+  return centroids;
+}
+
+export function sphericalKMeans(
+  vectors: number[][],
+  k: number,
+  options: SphericalKMeansOptions = {}
+): SphericalKMeansResult {
+  const { initialization = 'kmeans++', maxIterations = 100, tolerance = 1e-4 } = options;
+  const random = options.random || createRandom();
+  const points = vectors.map(normalizeVector);
+  const n = points.length;
+  const dimensions = points[0]?.length || 0;
+
+  let centroids = seedCentroids(points, k, initialization, random);
+  const labels = new Array<number>(n).fill(0);
+  const similarity = new Float64Array(n);
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < maxIterations && !converged) {
+    iterations++;
+
+    // Assign each point to its most similar centroid
+    for (let i = 0; i < n; i++) {
+      let best = 0;
+      let bestSimilarity = -Infinity;
+      for (let c = 0; c < k; c++) {
+        const s = dot(points[i], centroids[c]);
+        if (s > bestSimilarity) {
+          bestSimilarity = s;
+          best = c;
+        }
+      }
+      labels[i] = best;
+      similarity[i] = bestSimilarity;
+    }
+
+    const sums = Array.from({ length: k }, () => new Array(dimensions).fill(0));
+    const counts = new Array(k).fill(0);
+    for (let i = 0; i < n; i++) {
+      counts[labels[i]]++;
+      const sum = sums[labels[i]];
+      for (let d = 0; d < dimensions; d++) sum[d] += points[i][d];
+    }
+
+    const next = sums.map((sum, c) => {
+      if (counts[c] > 0) return normalizeVector(sum);
+
+      // Empty cluster: restart it at the point its centroid fits worst
+      let worst = 0;
+      for (let i = 1; i < n; i++) {
+        if (similarity[i] < similarity[worst]) worst = i;
+      }
+      similarity[worst] = Infinity;
+      return points[worst].slice();
+    });
+
+    const shift = next.reduce((max, centroid, c) => Math.max(max, 1 - dot(centroid, centroids[c])), 0);
+    centroids = next;
+    converged = shift <= tolerance;
+  }
+
+  return { clusters: labels, centroids, iterations, converged };
+}
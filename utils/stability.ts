@@ -0,0 +1,134 @@
+// Bootstrap cluster stability (Hennig's clusterboot)
+// The algorithm is rerun on random subsamples of the embeddings. Each original
+// cluster, restricted to the sampled points, is matched to its most similar
+// subsample cluster by Jaccard similarity, and the mean over all resamples
+// says how reproducible the cluster is. Clusters below UNSTABLE_JACCARD are
+// usually artifacts of initialization or noise; above STABLE_JACCARD they are
+// real structure. Kept free of the clustering implementations so the
+// thresholds can be imported client-side.
+import { DEFAULT_SEED, RandomSource, createRandom, randomInt } from './random';
+
+export const DEFAULT_BOOTSTRAPS = 20;
+export const DEFAULT_SAMPLE_FRACTION = 0.8;
+export const STABLE_JACCARD = 0.75;
+export const UNSTABLE_JACCARD = 0.6;
+// A cluster counts as dissolved in a resample when its best match is below this
+const DISSOLVED_JACCARD = 0.5;
+
+const NOISE = -1;
+
+export type StabilityLevel = 'stable' | 'moderate' | 'unstable';
+
+export interface ClusterStability {
+  clusterId: number;
+  jaccard: number; // mean best-match Jaccard over the resamples that contained the cluster
+  dissolved: number; // fraction of those resamples with a best match below 0.5
+  level: StabilityLevel;
+}
+
+export interface StabilityResult {
+  bootstraps: number;
+  sampleFraction: number;
+  clusters: ClusterStability[];
+}
+
+export interface StabilityOptions {
+  bootstraps?: number;
+  sampleFraction?: number;
+  seed?: number;
+}
+
+export function stabilityLevel(jaccard: number): StabilityLevel {
+  if (jaccard >= STABLE_JACCARD) return 'stable';
+  return jaccard < UNSTABLE_JACCARD ? 'unstable' : 'moderate';
+}
+
+// m distinct indices out of n (partial Fisher-Yates)
+function subsample(n: number, m: number, random: RandomSource): number[] {
+  const indices = Array.from({ length: n }, (_, i) => i);
+  for (let i = 0; i < m; i++) {
+    const j = i + randomInt(random, n - i);
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, m);
+}
+
+// Best Jaccard match in the resample for every original cluster present in it
+function bestMatches(originalLabels: number[], sampleLabels: number[], clusterCount: number): (number | null)[] {
+  const originalSizes = new Array(clusterCount).fill(0);
+  const sampleSizes = new Map<number, number>();
+  const overlaps = new Map<number, Map<number, number>>();
+
+  originalLabels.forEach((original, i) => {
+    const sampled = sampleLabels[i];
+    if (original !== NOISE) originalSizes[original]++;
+    if (sampled === NOISE) return;
+    sampleSizes.set(sampled, (sampleSizes.get(sampled) || 0) + 1);
+    if (original === NOISE) return;
+    if (!overlaps.has(original)) overlaps.set(original, new Map());
+    const row = overlaps.get(original)!;
+    row.set(sampled, (row.get(sampled) || 0) + 1);
+  });
+
+  return originalSizes.map((size, cluster) => {
+    if (size === 0) return null;
+    let best = 0;
+    overlaps.get(cluster)?.forEach((overlap, sampled) => {
+      best = Math.max(best, overlap / (size + sampleSizes.get(sampled)! - overlap));
+    });
+    return best;
+  });
+}
+
+// labels are the clustering being assessed (NOISE for unclustered points);
+// cluster(vectors, seed) reruns the same algorithm and configuration
+export function assessStability(
+  vectors: number[][],
+  labels: number[],
+  cluster: (vectors: number[][], seed: number) => number[],
+  options: StabilityOptions = {},
+  onProgress?: (progress: number, message: string) => void
+): StabilityResult {
+  const {
+    bootstraps = DEFAULT_BOOTSTRAPS,
+    sampleFraction = DEFAULT_SAMPLE_FRACTION,
+    seed = DEFAULT_SEED
+  } = options;
+  const random = createRandom(seed);
+  const clusterCount = labels.reduce((max, label) => Math.max(max, label + 1), 0);
+  const sampleSize = Math.max(2, Math.round(vectors.length * sampleFraction));
+
+  const sums = new Array(clusterCount).fill(0);
+  const dissolved = new Array(clusterCount).fill(0);
+  const counts = new Array(clusterCount).fill(0);
+
+  for (let b = 0; b < bootstraps; b++) {
+    onProgress?.(b / bootstraps, `Bootstrap resample ${b + 1}/${bootstraps}...`);
+
+    const sample = subsample(vectors.length, sampleSize, random);
+    const sampleLabels = cluster(sample.map(i => vectors[i]), seed + b + 1);
+
+    bestMatches(sample.map(i => labels[i]), sampleLabels, clusterCount).forEach((jaccard, c) => {
+      if (jaccard === null) return;
+      sums[c] += jaccard;
+      counts[c]++;
+      if (jaccard < DISSOLVED_JACCARD) dissolved[c]++;
+    });
+  }
+
+  onProgress?.(1, `Stability assessed over ${bootstraps} resamples`);
+
+  return {
+    bootstraps,
+    sampleFraction,
+    clusters: sums.map((sum, clusterId) => {
+      const jaccard = counts[clusterId] > 0 ? sum / counts[clusterId] : 0;
+      return {
+        clusterId,
+        jaccard,
+        dissolved: counts[clusterId] > 0 ? dissolved[clusterId] / counts[clusterId] : 1,
+        level: stabilityLevel(jaccard)
+      };
+    })
+  };
+}
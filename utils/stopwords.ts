@@ -89,4 +89,63 @@ export function isStopword(word: string): boolean {
          PUNCTUATION_SYMBOLS.has(word) ||
          word.length <= 1 ||
          /^\d+$/.test(word);
-}
\ No newline at end of file
+}
+
+// Stopwords for the other languages detectTitleLanguage reports on Latin and
+// Cyrillic titles, used by the cluster labeler (utils/cluster-labeling.ts)
+const RUSSIAN_STOPWORDS = [
+  'и', 'в', 'во', 'не', 'что', 'он', 'на', 'я', 'с', 'со', 'как', 'а', 'то',
+  'все', 'она', 'так', 'его', 'но', 'да', 'ты', 'к', 'у', 'же', 'вы', 'за',
+  'бы', 'по', 'только', 'ее', 'её', 'мне', 'было', 'вот', 'от', 'меня', 'еще',
+  'ещё', 'нет', 'о', 'об', 'из', 'ему', 'теперь', 'когда', 'даже', 'ну', 'ли',
+  'если', 'уже', 'или', 'ни', 'быть', 'был', 'него', 'до', 'вас', 'нибудь',
+  'уж', 'вам', 'ведь', 'там', 'потом', 'себя', 'ничего', 'ей', 'может', 'они',
+  'тут', 'где', 'есть', 'надо', 'ней', 'для', 'мы', 'тебя', 'их', 'чем', 'была',
+  'сам', 'чтоб', 'без', 'будто', 'чего', 'раз', 'тоже', 'себе', 'под', 'будет',
+  'тогда', 'кто', 'этот', 'это', 'эти', 'этом', 'того', 'потому', 'этого',
+  'какой', 'совсем', 'ним', 'здесь', 'при', 'про', 'над', 'после', 'через',
+  'мой', 'моя', 'свой', 'наш', 'весь', 'всё', 'всех', 'очень', 'почему', 'зачем'
+];
+
+const SPANISH_STOPWORDS = [
+  'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'de', 'del', 'al',
+  'en', 'con', 'por', 'para', 'como', 'que', 'qué', 'y', 'o', 'u', 'e', 'a',
+  'mi', 'mis', 'tu', 'tus', 'su', 'sus', 'este', 'esta', 'estos', 'estas',
+  'ese', 'esa', 'lo', 'le', 'les', 'se', 'me', 'te', 'nos', 'no', 'sí', 'si',
+  'es', 'son', 'fue', 'ser', 'muy', 'más', 'pero', 'sin', 'sobre', 'entre',
+  'ya', 'cuando', 'donde', 'quien', 'yo', 'él', 'ella', 'hay', 'todo', 'todos'
+];
+
+const FRENCH_STOPWORDS = [
+  'le', 'la', 'les', 'un', 'une', 'des', 'de', 'du', 'dans', 'avec', 'pour',
+  'sur', 'comme', 'que', 'qui', 'quoi', 'mon', 'ma', 'mes', 'ton', 'ta', 'tes',
+  'son', 'sa', 'ses', 'ce', 'cet', 'cette', 'ces', 'et', 'ou', 'au', 'aux',
+  'en', 'à', 'je', 'tu', 'il', 'elle', 'on', 'nous', 'vous', 'ils', 'elles',
+  'ne', 'pas', 'plus', 'est', 'sont', 'être', 'avoir', 'par', 'mais', 'sans',
+  'très', 'tout', 'tous', 'se', 'me', 'te', 'lui', 'leur', 'y', 'si'
+];
+
+const GERMAN_STOPWORDS = [
+  'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem',
+  'einer', 'und', 'oder', 'aber', 'in', 'im', 'mit', 'von', 'vom', 'zu', 'zum',
+  'zur', 'auf', 'für', 'an', 'am', 'bei', 'aus', 'ist', 'sind', 'war', 'wie',
+  'ich', 'du', 'er', 'sie', 'es', 'wir', 'ihr', 'nicht', 'kein', 'keine',
+  'mein', 'dein', 'sein', 'so', 'auch', 'noch', 'nur', 'schon', 'sehr', 'was'
+];
+
+const PORTUGUESE_STOPWORDS = [
+  'o', 'a', 'os', 'as', 'um', 'uma', 'de', 'do', 'da', 'dos', 'das', 'em',
+  'no', 'na', 'nos', 'nas', 'com', 'por', 'para', 'como', 'que', 'e', 'ou',
+  'meu', 'minha', 'seu', 'sua', 'este', 'esta', 'isso', 'isto', 'não', 'sim',
+  'é', 'são', 'foi', 'ser', 'muito', 'mais', 'mas', 'sem', 'eu', 'ele', 'ela'
+];
+
+export const STOPWORDS_BY_LANGUAGE: Record<string, Set<string>> = {
+  en: ENGLISH_STOPWORDS,
+  ru: new Set(RUSSIAN_STOPWORDS),
+  uk: new Set(RUSSIAN_STOPWORDS),
+  es: new Set(SPANISH_STOPWORDS),
+  fr: new Set(FRENCH_STOPWORDS),
+  de: new Set(GERMAN_STOPWORDS),
+  pt: new Set(PORTUGUESE_STOPWORDS)
+};
@@ -4,6 +4,7 @@ import * as natural from 'natural';
 import { removeStopwords as removeStopwordsLib, eng } from 'stopwords';
 // @ts-ignore - No types available for stemmer
 import { stemmer } from 'stemmer';
+import { createRandom, seedFromString } from './random';
 
 // Pre-trained word embeddings (GloVe-style) - subset for common words
 // In production, this would be loaded from a larger embeddings file
@@ -47,9 +48,11 @@ export interface Word2VecConfig {
   stemWords: boolean;
   lowercase: boolean;
   handleUnknown: boolean;
+  seed?: number; // unknown-word vectors
 }
 
 export interface ProcessedText {
+  id?: string; // video ID, when clustering VideoRecords
   original: string;
   tokens: string[];
   vector: number[];
@@ -101,8 +104,10 @@ export function getWordEmbedding(
 
   // Handle unknown words
   if (config.handleUnknown) {
-    // Return random vector for unknown words (simple fallback)
-    return Array.from({ length: EMBEDDING_DIM }, () => Math.random() * 0.1 - 0.05);
+    // Small random vector for unknown words (simple fallback), seeded by the
+    // word so it is the same in every run
+    const random = createRandom(seedFromString(word.toLowerCase(), config.seed));
+    return Array.from({ length: EMBEDDING_DIM }, () => random() * 0.1 - 0.05);
   }
 
   return null;